@@ -0,0 +1,66 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { PROVIDER_FACTORIES } from '../src/providers/factories';
+
+const GLOBAL_QUOTE = {
+  'Global Quote': {
+    '01. symbol': 'AAPL',
+    '05. price': '151.0000',
+    '06. volume': '1000000',
+    '07. latest trading day': '2024-01-15',
+    '08. previous close': '149.2500',
+    '09. change': '1.7500',
+    '10. change percent': '1.17%'
+  }
+};
+
+describe('configured base URL', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const seen: string[] = [];
+
+  beforeAll(async () => {
+    // Stands in for every provider: answers Alpha Vantage quotes and {} to anything else
+    server = http.createServer((req, res) => {
+      seen.push(req.url || '');
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(req.url?.includes('function=GLOBAL_QUOTE') ? GLOBAL_QUOTE : {}));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mirror`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    seen.length = 0;
+  });
+
+  it.each(Object.entries(PROVIDER_FACTORIES))('should send %s requests to it', async (_name, factory) => {
+    const client = factory!('test-api-key', 5000, { baseUrl });
+
+    await client.getQuote('AAPL', false).catch(() => undefined);
+
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.every(url => /^\/mirror[/?]/.test(url))).toBe(true);
+  });
+
+  it('should serve StocksAPI calls from the base URL in the provider config', async () => {
+    const api = new StocksAPI({
+      cache: { enabled: false },
+      maxRetries: 0,
+      providers: { alphaVantage: { apiKey: 'test-api-key', baseUrl } as ApiProviderConfig },
+      routing: { realtime: ['alphaVantage'] }
+    });
+
+    const quote = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(quote.price).toBe(151);
+    expect(seen[0]).toMatch(/^\/mirror\/?\?.*function=GLOBAL_QUOTE/);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  MemoryLRUCache,
+  ResponseCache,
+  CacheStore,
+  createCacheKey,
+  normalizeSymbols,
+  getTimeSeriesTtl
+} from '../src/cache';
+import { StocksAPI } from '../src/stocks-api';
+import { ApiProviderConfig } from '../src/config';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { StockQuote, CompanyProfile } from '../src/types';
+
+describe('cache', () => {
+  describe('MemoryLRUCache', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should expire entries after their time to live', async () => {
+      jest.useFakeTimers();
+      const cache = new MemoryLRUCache();
+      await cache.set('quote', 150, 1000);
+
+      expect(await cache.get('quote')).toBe(150);
+      jest.advanceTimersByTime(1000);
+      expect(await cache.get('quote')).toBeUndefined();
+    });
+
+    it('should evict the least recently used entry once full', async () => {
+      const cache = new MemoryLRUCache(2);
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.get('a');
+      await cache.set('c', 3);
+
+      expect(await cache.get('a')).toBe(1);
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('c')).toBe(3);
+      expect(cache.size).toBe(2);
+    });
+
+    it('should not let callers mutate the cached value', async () => {
+      const cache = new MemoryLRUCache();
+      const stored = { price: 150, timestamp: new Date('2024-01-15T16:00:00Z') };
+      await cache.set('quote', stored);
+      stored.price = 0;
+
+      const read = await cache.get<typeof stored>('quote');
+      read!.price = 1;
+
+      expect(await cache.get('quote')).toEqual({ price: 150, timestamp: new Date('2024-01-15T16:00:00Z') });
+    });
+  });
+
+  describe('cache keys', () => {
+    it('should ignore object key order and undefined values', () => {
+      expect(createCacheKey('getEarnings', ['AAPL', { limit: 4, startDate: undefined, includeFutureReports: true }]))
+        .toBe(createCacheKey('getEarnings', ['AAPL', { includeFutureReports: true, limit: 4 }]));
+    });
+
+    it('should serialize dates', () => {
+      expect(createCacheKey('getDividends', ['AAPL', new Date('2024-01-01T00:00:00Z')]))
+        .toBe('getDividends:["AAPL","2024-01-01T00:00:00.000Z"]');
+    });
+
+    it('should normalize symbol lists', () => {
+      expect(normalizeSymbols(['msft', ' AAPL', 'MSFT'])).toEqual(['AAPL', 'MSFT']);
+    });
+  });
+
+  describe('getTimeSeriesTtl', () => {
+    const now = new Date('2024-06-10T15:00:00Z');
+
+    it('should keep ranges that ended before today indefinitely', () => {
+      expect(getTimeSeriesTtl(60000, new Date('2024-06-07T00:00:00Z'), now)).toBe(Infinity);
+    });
+
+    it('should use the open range TTL for ranges reaching today', () => {
+      expect(getTimeSeriesTtl(60000, new Date('2024-06-10T00:00:00Z'), now)).toBe(60000);
+      expect(getTimeSeriesTtl(60000, undefined, now)).toBe(60000);
+    });
+  });
+
+  describe('ResponseCache', () => {
+    it('should only load once while the entry is fresh', async () => {
+      const cache = new ResponseCache();
+      const load = jest.fn().mockResolvedValue({ price: 150 });
+
+      await cache.wrap('getQuote', ['AAPL'], load);
+      const result = await cache.wrap('getQuote', ['AAPL'], load);
+
+      expect(result).toEqual({ price: 150 });
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bypass the lookup but refresh the entry when the call opts out', async () => {
+      const cache = new ResponseCache();
+      const load = jest.fn()
+        .mockResolvedValueOnce({ price: 150 })
+        .mockResolvedValueOnce({ price: 151 });
+
+      await cache.wrap('getQuote', ['AAPL'], load);
+      expect(await cache.wrap('getQuote', ['AAPL'], load, { cache: false })).toEqual({ price: 151 });
+      expect(await cache.read('getQuote', ['AAPL'])).toEqual({ price: 151 });
+    });
+
+    it('should not cache methods with a zero TTL or when disabled', async () => {
+      const load = jest.fn().mockResolvedValue([]);
+      await new ResponseCache({ ttl: { getMarketNews: 0 } }).wrap('getMarketNews', [], load);
+      const disabled = new ResponseCache({ enabled: false });
+      await disabled.wrap('getMarketNews', [], load);
+      await disabled.wrap('getMarketNews', [], load);
+
+      expect(load).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall through to the loader when the store fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const store: CacheStore = {
+        get: jest.fn().mockRejectedValue(new Error('unreachable')),
+        set: jest.fn().mockRejectedValue(new Error('unreachable')),
+        delete: jest.fn(),
+        clear: jest.fn()
+      };
+      const cache = new ResponseCache({ store });
+
+      await expect(cache.wrap('getQuote', ['AAPL'], async () => 150)).resolves.toBe(150);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('StocksAPI integration', () => {
+    const quote: StockQuote = {
+      symbol: 'AAPL',
+      price: 150,
+      change: 1,
+      changePercent: 0.67,
+      timestamp: new Date('2024-01-15T16:00:00Z'),
+      volume: 1000
+    };
+    const profile = { symbol: 'AAPL', name: 'Apple Inc.' } as CompanyProfile;
+
+    let api: StocksAPI;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      api = new StocksAPI({
+        providers: { finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig }
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should reuse the cached profile and quote', async () => {
+      const getQuote = jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote);
+      const getProfile = jest.spyOn(FinnhubClient.prototype, 'getCompanyProfile').mockResolvedValue(profile);
+
+      await api.getCompanyProfile('aapl');
+      const first = await api.getQuote('AAPL');
+      const second = await api.getQuote(' aapl ');
+
+      expect(first.companyName).toBe('Apple Inc.');
+      expect(second).toEqual(first);
+      expect(getQuote).toHaveBeenCalledTimes(1);
+      expect(getProfile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch fresh data when the call opts out of the cache', async () => {
+      const getQuote = jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote);
+
+      await api.getQuote('AAPL', false);
+      await api.getQuote('AAPL', { includeCompanyName: false, cache: false });
+
+      expect(getQuote).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only request uncached symbols in batches', async () => {
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote);
+      const getQuotes = jest.spyOn(FinnhubClient.prototype, 'getQuotes').mockResolvedValue({
+        MSFT: { success: true, symbol: 'MSFT', data: { ...quote, symbol: 'MSFT' } }
+      });
+
+      await api.getQuote('AAPL', false);
+      const results = await api.getQuotes(['AAPL', 'MSFT']);
+
+      expect(getQuotes).toHaveBeenCalledWith(['MSFT']);
+      expect(results.AAPL.data).toEqual(quote);
+      expect(results.MSFT.success).toBe(true);
+    });
+  });
+});
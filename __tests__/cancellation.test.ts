@@ -0,0 +1,209 @@
+import { runWithCallOptions, delay, getCallSignal, linkSignals } from '../src/clients/call-options';
+import { RequestAbortedError, ProviderTimeoutError } from '../src/errors';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+
+// fetch that only settles when its signal aborts, like a provider that never answers
+function hangingFetch(): jest.Mock {
+  return jest.fn((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+    const abort = () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    if (init.signal.aborted) {
+      abort();
+    }
+    init.signal.addEventListener('abort', abort);
+  }));
+}
+
+describe('cancellation', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe('runWithCallOptions', () => {
+    it('should abort work that outlives the deadline', async () => {
+      const error = await runWithCallOptions({ timeoutMs: 10 }, () => delay(1000)).catch(e => e);
+
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error.timedOut).toBe(true);
+      expect(error.message).toBe('Call timed out after 10ms');
+    });
+
+    it('should keep the signal of an enclosing call', async () => {
+      const controller = new AbortController();
+
+      const error = await runWithCallOptions({ signal: controller.signal }, () =>
+        runWithCallOptions({ timeoutMs: 1000 }, () => {
+          controller.abort();
+          return delay(1000);
+        })
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error.timedOut).toBe(false);
+    });
+
+    it('should not leave a signal behind once the call is done', async () => {
+      await runWithCallOptions({ timeoutMs: 1000 }, async () => {
+        expect(getCallSignal()).toBeDefined();
+      });
+
+      expect(getCallSignal()).toBeUndefined();
+    });
+  });
+
+  describe('linkSignals', () => {
+    it('should abort with the reason of the first signal aborted', () => {
+      const first = new AbortController();
+      const second = new AbortController();
+      const { signal } = linkSignals([first.signal, second.signal]);
+
+      second.abort('navigated away');
+      first.abort('too late');
+
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toBe('navigated away');
+    });
+
+    it('should stop following the signals once unlinked', () => {
+      const controller = new AbortController();
+      const { signal, unlink } = linkSignals([controller.signal, new AbortController().signal]);
+
+      unlink();
+      controller.abort();
+
+      expect(signal.aborted).toBe(false);
+    });
+  });
+
+  describe('clients', () => {
+    it('should abort an in-flight request without retrying it', async () => {
+      const client = new TwelveDataClient('test-api-key', 30000, { retry: { maxRetries: 3, retryDelay: 1 } });
+      global.fetch = hangingFetch() as unknown as typeof fetch;
+      const controller = new AbortController();
+
+      const request = client.searchSymbols('apple', { signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply a per-call timeout shorter than the client timeout', async () => {
+      const client = new TwelveDataClient('test-api-key', 30000);
+      global.fetch = hangingFetch() as unknown as typeof fetch;
+
+      const error = await client.searchSymbols('apple', { timeoutMs: 20 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error).not.toBeInstanceOf(ProviderTimeoutError);
+      expect(error.timedOut).toBe(true);
+    });
+
+    it('should only apply to the call it was passed to', async () => {
+      const client = new TwelveDataClient('test-api-key');
+      const controller = new AbortController();
+      controller.abort();
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [] })
+      }) as jest.Mock;
+
+      await expect(client.searchSymbols('apple', { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(client.searchSymbols('apple')).resolves.toEqual([]);
+    });
+
+    it('should take the options after the arguments of the method', async () => {
+      const client = new TwelveDataClient('test-api-key');
+      const controller = new AbortController();
+      controller.abort();
+      global.fetch = jest.fn() as jest.Mock;
+
+      await expect(client.getTimeSeries('AAPL', 'daily', 30, undefined, undefined, 'compact', { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(client.getQuotes(['AAPL', 'MSFT'], { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('StocksAPI', () => {
+    function createApi(): StocksAPI {
+      return new StocksAPI({
+        providers: {
+          finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig,
+          twelveData: { apiKey: 'test-api-key' } as ApiProviderConfig
+        },
+        routing: { realtime: ['finnhub', 'twelveData'] }
+      });
+    }
+
+    it('should stop the fallback chain when the call is aborted', async () => {
+      const api = createApi();
+      const controller = new AbortController();
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockImplementation(async () => {
+        controller.abort();
+        await delay(1000);
+        throw new Error('unreachable');
+      });
+      const twelveData = jest.spyOn(TwelveDataClient.prototype, 'getQuote');
+
+      await expect(api.getQuote('AAPL', { signal: controller.signal })).rejects.toBeInstanceOf(RequestAbortedError);
+
+      expect(twelveData).not.toHaveBeenCalled();
+      // Cancelling is not held against the provider
+      expect(api.getProviderHealth().finnhub?.failures).toBe(0);
+    });
+
+    it('should not try further providers once a failed attempt outlived the deadline', async () => {
+      const api = createApi();
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        throw new Error('Provider down');
+      });
+      const twelveData = jest.spyOn(TwelveDataClient.prototype, 'getQuote');
+
+      const error = await api.getQuote('AAPL', { timeoutMs: 10 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error.timedOut).toBe(true);
+      expect(twelveData).not.toHaveBeenCalled();
+    });
+
+    it('should not start a batch once the call is aborted', async () => {
+      const api = createApi();
+      const controller = new AbortController();
+      controller.abort();
+      const finnhub = jest.spyOn(FinnhubClient.prototype, 'getQuotes');
+
+      await expect(api.getQuotes(['AAPL', 'MSFT'], { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      expect(finnhub).not.toHaveBeenCalled();
+    });
+
+    it('should take the options in the position the client methods do', async () => {
+      const api = createApi();
+      const controller = new AbortController();
+      controller.abort();
+      const finnhub = jest.spyOn(FinnhubClient.prototype, 'getTimeSeries');
+
+      await expect(api.getTimeSeries('AAPL', '5min', 30, undefined, undefined, 'compact', { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(api.getQuote('AAPL', false, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(RequestAbortedError);
+      expect(finnhub).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { supportsCapability, describeCapabilities, ProviderCapabilities } from '../src/clients/capabilities';
+import { ProviderRegistry } from '../src/providers/registry';
+import { ApiProviderConfig, DEFAULT_CONFIG } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { StockApiClient } from '../src/types';
+import { TiingoClient } from '../src/providers/tiingo';
+import { PolygonIoClient } from '../src/providers/polygon-io';
+import { EODHDClient } from '../src/providers/eodhd';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { AllProvidersFailedError } from '../src/errors';
+
+describe('provider capabilities', () => {
+  const capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getDividends: false,
+    getTimeSeries: { intervals: ['daily', 'weekly'] },
+    getEconomicIndicator: { regions: ['US'] }
+  };
+
+  describe('supportsCapability', () => {
+    it('should support methods declared as true and reject missing or false ones', () => {
+      expect(supportsCapability(capabilities, { method: 'getQuote' })).toBe(true);
+      expect(supportsCapability(capabilities, { method: 'getDividends' })).toBe(false);
+      expect(supportsCapability(capabilities, { method: 'getMarketNews' })).toBe(false);
+    });
+
+    it('should check intervals and regions', () => {
+      expect(supportsCapability(capabilities, { method: 'getTimeSeries', interval: 'daily' })).toBe(true);
+      expect(supportsCapability(capabilities, { method: 'getTimeSeries', interval: '5min' })).toBe(false);
+      expect(supportsCapability(capabilities, { method: 'getEconomicIndicator', region: 'US' })).toBe(true);
+      expect(supportsCapability(capabilities, { method: 'getEconomicIndicator', region: 'JP' })).toBe(false);
+    });
+
+    it('should assume full support when nothing is declared', () => {
+      expect(supportsCapability(undefined, { method: 'getMarketNews' })).toBe(true);
+    });
+  });
+
+  describe('describeCapabilities', () => {
+    it('should report every method', () => {
+      const report = describeCapabilities(capabilities);
+
+      expect(report.getQuote).toEqual({ supported: true });
+      expect(report.getDividends).toEqual({ supported: false });
+      expect(report.searchSymbols).toEqual({ supported: false });
+      expect(report.getTimeSeries).toEqual({ supported: true, intervals: ['daily', 'weekly'] });
+    });
+  });
+
+  describe('client declarations', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should declare the methods each client stubs out as unsupported', () => {
+      expect(TiingoClient.capabilities.getDividends).toBeUndefined();
+      expect(TiingoClient.capabilities.getEarnings).toBeUndefined();
+      expect(PolygonIoClient.capabilities.getFinancialMetrics).toBeUndefined();
+      expect(PolygonIoClient.capabilities.getEconomicEvents).toBeUndefined();
+      expect(PolygonIoClient.capabilities.getQuote).toBe(true);
+    });
+
+    it('should send intraday requests past providers serving end-of-day bars only', async () => {
+      const eodhd = jest.spyOn(EODHDClient.prototype, 'getTimeSeries').mockResolvedValue([]);
+      const twelveData = jest.spyOn(TwelveDataClient.prototype, 'getTimeSeries')
+        .mockResolvedValue([{ timestamp: new Date(), open: 1, high: 1, low: 1, close: 1, volume: 100 }]);
+      const api = new StocksAPI({
+        cache: { enabled: false },
+        maxRetries: 0,
+        providers: {
+          eodhd: { apiKey: 'eodhd-key' } as ApiProviderConfig,
+          twelveData: { apiKey: 'twelve-data-key' } as ApiProviderConfig
+        },
+        routing: { historical: ['eodhd', 'twelveData'] }
+      });
+
+      const series = await api.getTimeSeries('AAPL', '5min');
+
+      expect(series).toHaveLength(1);
+      expect(eodhd).not.toHaveBeenCalled();
+      expect(twelveData).toHaveBeenCalledWith('AAPL', '5min', 100, undefined, undefined, undefined);
+      expect(api.getCapabilities().eodhd?.getTimeSeries.intervals).toEqual(['1d', 'daily', 'weekly', 'monthly']);
+    });
+  });
+
+  describe('registry routing', () => {
+    class DailyOnlyClient {
+      static capabilities: ProviderCapabilities = {
+        getTimeSeries: { intervals: ['daily'] },
+        getDividends: false
+      };
+      getTimeSeries = jest.fn().mockResolvedValue([{ close: 1 }]);
+      getDividends = jest.fn().mockResolvedValue([]);
+    }
+
+    const fullClient = () => ({
+      getTimeSeries: jest.fn().mockResolvedValue([{ close: 2 }]),
+      getDividends: jest.fn().mockResolvedValue([{ amount: 0.5 }])
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should skip providers that cannot serve the request without calling them', async () => {
+      const registry = new ProviderRegistry(DEFAULT_CONFIG);
+      const limited = new DailyOnlyClient();
+      const full = fullClient();
+      registry.registerProvider('tiingo', limited as unknown as StockApiClient, 1);
+      registry.registerProvider('finnhub', full as unknown as StockApiClient, 2);
+
+      const dividends = await registry.withFallback('fundamentals', provider =>
+        provider.getDividends('AAPL'),
+        { allowEmpty: true, capability: { method: 'getDividends' } }
+      );
+
+      expect(dividends).toEqual([{ amount: 0.5 }]);
+      expect(limited.getDividends).not.toHaveBeenCalled();
+    });
+
+    it('should route by interval', async () => {
+      const registry = new ProviderRegistry(DEFAULT_CONFIG);
+      const limited = new DailyOnlyClient();
+      const full = fullClient();
+      registry.registerProvider('tiingo', limited as unknown as StockApiClient, 1);
+      registry.registerProvider('finnhub', full as unknown as StockApiClient, 2);
+
+      await registry.withFallback('historical', provider =>
+        provider.getTimeSeries('AAPL', 'daily'),
+        { capability: { method: 'getTimeSeries', interval: 'daily' } }
+      );
+      await registry.withFallback('realtime', provider =>
+        provider.getTimeSeries('AAPL', '5min'),
+        { capability: { method: 'getTimeSeries', interval: '5min' } }
+      );
+
+      expect(limited.getTimeSeries).toHaveBeenCalledTimes(1);
+      expect(full.getTimeSeries).toHaveBeenCalledTimes(1);
+      expect(full.getTimeSeries).toHaveBeenCalledWith('AAPL', '5min');
+    });
+
+    it('should fail when no provider has the capability', async () => {
+      const registry = new ProviderRegistry(DEFAULT_CONFIG);
+      registry.registerProvider('tiingo', new DailyOnlyClient() as unknown as StockApiClient, 1);
+
+      await expect(registry.withFallback('fundamentals', provider =>
+        provider.getDividends('AAPL'),
+        { allowEmpty: true, capability: { method: 'getDividends' } }
+      )).rejects.toThrow(AllProvidersFailedError);
+    });
+
+    it('should report capabilities for every registered provider', () => {
+      const registry = new ProviderRegistry(DEFAULT_CONFIG);
+      registry.registerProvider('tiingo', new DailyOnlyClient() as unknown as StockApiClient, 1);
+      registry.registerProvider('finnhub', fullClient() as unknown as StockApiClient, 2);
+
+      const capabilities = registry.getCapabilities();
+
+      expect(capabilities.tiingo!.getDividends.supported).toBe(false);
+      expect(capabilities.tiingo!.getTimeSeries).toEqual({ supported: true, intervals: ['daily'] });
+      expect(capabilities.finnhub!.getDividends.supported).toBe(true);
+    });
+  });
+});
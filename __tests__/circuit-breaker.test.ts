@@ -0,0 +1,72 @@
+import { CircuitBreaker } from '../src/providers/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should reset the failure count after a success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open after consecutive failures and reject requests', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should allow a single trial request once the cool-down has elapsed', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close when the trial request succeeds', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should re-open when the trial request fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+});
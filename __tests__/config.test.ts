@@ -0,0 +1,45 @@
+import { validateConfig, DEFAULT_CONFIG, ApiProviderConfig } from '../src/config';
+
+describe('validateConfig', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep provider defaults when only some settings are given', () => {
+    const config = validateConfig({
+      providers: {
+        finnhub: { apiKey: 'key', priority: 1 } as ApiProviderConfig
+      }
+    });
+
+    expect(config.providers.finnhub).toMatchObject({
+      apiKey: 'key',
+      priority: 1,
+      enabled: true,
+      rateLimit: DEFAULT_CONFIG.providers.finnhub!.rateLimit,
+      features: DEFAULT_CONFIG.providers.finnhub!.features
+    });
+  });
+
+  it('should merge partial feature flags', () => {
+    const config = validateConfig({
+      providers: {
+        finnhub: { apiKey: 'key', features: { news: false } } as unknown as ApiProviderConfig
+      }
+    });
+
+    expect(config.providers.finnhub!.features.news).toBe(false);
+    expect(config.providers.finnhub!.features.realtime).toBe(true);
+  });
+
+  it('should disable providers without an API key without touching the defaults', () => {
+    const config = validateConfig({});
+
+    expect(config.providers.alphaVantage!.enabled).toBe(false);
+    expect(DEFAULT_CONFIG.providers.alphaVantage!.enabled).toBe(true);
+  });
+});
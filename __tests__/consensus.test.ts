@@ -0,0 +1,111 @@
+import { buildConsensusQuote } from '../src/providers/consensus';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { EODHDClient } from '../src/providers/eodhd';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { AllProvidersFailedError } from '../src/errors';
+import { StockQuote } from '../src/types';
+
+const quote = (price: number, previousClose: number = 100): StockQuote => ({
+  symbol: 'AAPL',
+  price,
+  change: price - previousClose,
+  changePercent: (price - previousClose) / previousClose * 100,
+  previousClose,
+  timestamp: new Date('2024-01-15T16:00:00Z'),
+  volume: 1000
+});
+
+describe('consensus quotes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildConsensusQuote', () => {
+    it('should price at the median and flag prices far from it', () => {
+      const result = buildConsensusQuote([
+        { provider: 'finnhub', quote: quote(150.1) },
+        { provider: 'twelveData', quote: quote(150) },
+        { provider: 'eodhd', quote: quote(141) }
+      ], 3);
+
+      expect(result.price).toBe(150);
+      expect(result.change).toBe(50);
+      expect(result.consensus).toEqual({
+        requested: 3,
+        prices: [
+          { provider: 'finnhub', price: 150.1, timestamp: expect.any(Date), outlier: false },
+          { provider: 'twelveData', price: 150, timestamp: expect.any(Date), outlier: false },
+          { provider: 'eodhd', price: 141, timestamp: expect.any(Date), outlier: true }
+        ],
+        deviation: expect.closeTo(0.1, 5),
+        deviationPercent: expect.closeTo(0.0666, 3),
+        outliers: ['eodhd']
+      });
+    });
+
+    it('should average the middle prices of an even number of answers', () => {
+      const result = buildConsensusQuote([
+        { provider: 'finnhub', quote: quote(101) },
+        { provider: 'twelveData', quote: quote(103) }
+      ], 3, 5);
+
+      expect(result.price).toBe(102);
+      expect(result.change).toBe(2);
+      expect(result.changePercent).toBe(2);
+      expect(result.consensus?.outliers).toEqual([]);
+    });
+  });
+
+  describe('StocksAPI', () => {
+    function createApi(): StocksAPI {
+      return new StocksAPI({
+        cache: { enabled: false },
+        providers: {
+          finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig,
+          twelveData: { apiKey: 'test-api-key' } as ApiProviderConfig,
+          eodhd: { apiKey: 'test-api-key' } as ApiProviderConfig
+        },
+        routing: { realtime: ['finnhub', 'twelveData', 'eodhd'] }
+      });
+    }
+
+    it('should ask several providers and report how they agree', async () => {
+      const api = createApi();
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote(150));
+      jest.spyOn(TwelveDataClient.prototype, 'getQuote').mockResolvedValue(quote(120));
+      jest.spyOn(EODHDClient.prototype, 'getQuote').mockResolvedValue(quote(151));
+
+      const result = await api.getQuote('AAPL', { consensus: 3, includeCompanyName: false });
+
+      expect(result.price).toBe(150);
+      expect(result.consensus?.prices.map(price => price.provider)).toEqual(['finnhub', 'twelveData', 'eodhd']);
+      expect(result.consensus?.outliers).toEqual(['twelveData']);
+    });
+
+    it('should only ask as many providers as requested and tolerate failures', async () => {
+      const api = createApi();
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockRejectedValue(new Error('down'));
+      jest.spyOn(TwelveDataClient.prototype, 'getQuote').mockResolvedValue(quote(150));
+      const eodhd = jest.spyOn(EODHDClient.prototype, 'getQuote');
+
+      const result = await api.getQuote('AAPL', { consensus: 2, includeCompanyName: false });
+
+      expect(result.price).toBe(150);
+      expect(result.consensus?.requested).toBe(2);
+      expect(eodhd).not.toHaveBeenCalled();
+    });
+
+    it('should throw when none of the providers answer', async () => {
+      const api = createApi();
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockRejectedValue(new Error('down'));
+      jest.spyOn(TwelveDataClient.prototype, 'getQuote').mockRejectedValue(new Error('down'));
+
+      const error = await api.getQuote('AAPL', { consensus: 2, includeCompanyName: false }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AllProvidersFailedError);
+      expect(error.attempts.map((attempt: { provider: string }) => attempt.provider)).toEqual(['finnhub', 'twelveData']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { HttpRequest, HttpResponse, HttpTransport } from '../src/clients/http-transport';
+import { ApiProviderConfig, StocksApiConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { StockApiClient, StockQuote } from '../src/types';
+
+const quote = (symbol: string, price: number): StockQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  volume: 1000,
+  timestamp: new Date()
+});
+
+// Stands in for an in-house service implementing the client interface directly
+function inHouseClient(overrides: Partial<StockApiClient> = {}): StockApiClient {
+  return {
+    getQuote: jest.fn(async (symbol: string) => quote(symbol, 200)),
+    getQuotes: jest.fn(async (symbols: string[]) => Object.fromEntries(
+      symbols.map(symbol => [symbol, { success: true, symbol, data: quote(symbol, 200) }])
+    )),
+    ...overrides
+  } as unknown as StockApiClient;
+}
+
+function createApi(config: Partial<StocksApiConfig> = {}): StocksAPI {
+  return new StocksAPI({
+    cache: { enabled: false },
+    maxRetries: 0,
+    providers: {
+      finnhub: { apiKey: 'finnhub-key' } as ApiProviderConfig
+    },
+    ...config
+  });
+}
+
+describe('custom providers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fall back to a registered provider', async () => {
+    const api = createApi();
+    jest.spyOn(FinnhubClient.prototype, 'getQuote').mockRejectedValue(new Error('down'));
+    api.registerProvider('inHouse', inHouseClient(), { priority: 100 });
+
+    const result = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(result.price).toBe(200);
+  });
+
+  it('should go first with a higher priority', async () => {
+    const api = createApi();
+    const finnhub = jest.spyOn(FinnhubClient.prototype, 'getQuote');
+    api.registerProvider('inHouse', inHouseClient(), { priority: 0 });
+
+    await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(finnhub).not.toHaveBeenCalled();
+  });
+
+  it('should fill in symbols missing from a batch', async () => {
+    const api = createApi();
+    jest.spyOn(FinnhubClient.prototype, 'getQuotes').mockResolvedValue({
+      AAPL: { success: true, symbol: 'AAPL', data: quote('AAPL', 150) },
+      MSFT: { success: false, symbol: 'MSFT', error: new Error('not found') }
+    });
+    const client = inHouseClient();
+    api.registerProvider('inHouse', client, { priority: 100 });
+
+    const results = await api.getQuotes(['AAPL', 'MSFT']);
+
+    expect(client.getQuotes).toHaveBeenCalledWith(['MSFT']);
+    expect(results.MSFT.data?.price).toBe(200);
+  });
+
+  it('should skip it for methods outside its declared capabilities and features', async () => {
+    const api = createApi();
+    const client = inHouseClient({ getDividends: jest.fn(), getMarketNews: jest.fn() });
+    jest.spyOn(FinnhubClient.prototype, 'getDividends').mockResolvedValue([]);
+    jest.spyOn(FinnhubClient.prototype, 'getMarketNews').mockResolvedValue([]);
+    api.registerProvider('inHouse', client, {
+      priority: 0,
+      capabilities: { getQuote: true, getDividends: true },
+      config: { features: { realtime: true, historical: false, fundamentals: true, news: true, forex: false, crypto: false, technicals: false, economic: false } }
+    });
+
+    await api.getDividends('AAPL');
+    await api.getMarketNews();
+
+    expect(client.getDividends).toHaveBeenCalled();
+    expect(client.getMarketNews).not.toHaveBeenCalled();
+    expect(api.getCapabilities().inHouse?.getMarketNews).toEqual({ supported: false });
+  });
+
+  it('should build a client with the options shared by the built-in ones', async () => {
+    const transport: HttpTransport = {
+      request: async <T>(_request: HttpRequest): Promise<HttpResponse<T>> => ({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: { symbol: 'AAPL', close: '150', change: '1', percent_change: '0.67', timestamp: 1705334400 } as T
+      })
+    };
+    const api = createApi({ transport, providers: {} });
+    const ends: string[] = [];
+    api.events.on('request:end', ({ provider }) => ends.push(provider));
+    api.registerProvider('inHouse', options => new TwelveDataClient('in-house-key', 1000, options), {
+      config: { apiKey: 'in-house-key', rateLimit: 60 }
+    });
+
+    const result = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(result.price).toBe(150);
+    expect(ends).toContain('inHouse');
+    expect(api.getKeyUsage().inHouse).toHaveLength(1);
+  });
+
+  it('should be listed with the enabled providers', () => {
+    const api = createApi();
+
+    api.registerProvider('inHouse', inHouseClient());
+
+    expect(api.getEnabledProviders()).toEqual(['finnhub', 'inHouse']);
+  });
+
+  it('should refuse a name already registered', () => {
+    const api = createApi();
+
+    expect(() => api.registerProvider('finnhub', inHouseClient())).toThrow('Provider finnhub is already registered');
+  });
+});
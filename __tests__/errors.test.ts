@@ -0,0 +1,106 @@
+import {
+  StocksApiError,
+  ApiRequestError,
+  AuthenticationError,
+  RateLimitError,
+  SymbolNotFoundError,
+  AllProvidersFailedError,
+  createApiError,
+  createProviderAttempt,
+  withErrorContext
+} from '../src/errors';
+
+describe('errors', () => {
+  describe('createApiError', () => {
+    it('should map HTTP statuses to error types', () => {
+      expect(createApiError('unauthorized', { status: 401 })).toBeInstanceOf(AuthenticationError);
+      expect(createApiError('forbidden', { status: 403 })).toBeInstanceOf(AuthenticationError);
+      expect(createApiError('not found', { status: 404 })).toBeInstanceOf(SymbolNotFoundError);
+      expect(createApiError('slow down', { status: 429, retryAfterMs: 1000 })).toBeInstanceOf(RateLimitError);
+    });
+
+    it('should fall back to ApiRequestError for other statuses', () => {
+      const error = createApiError('server error', { status: 500, provider: 'Finnhub' });
+
+      expect(error.constructor).toBe(ApiRequestError);
+      expect(error.status).toBe(500);
+      expect(error.provider).toBe('Finnhub');
+    });
+
+    it('should keep the type usable with instanceof and name', () => {
+      const error = createApiError('slow down', { status: 429 });
+
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error).toBeInstanceOf(StocksApiError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('RateLimitError');
+    });
+  });
+
+  describe('withErrorContext', () => {
+    it('should prefix the message and keep the error type', () => {
+      const original = new RateLimitError('API request failed with status 429', { status: 429 });
+      const error = withErrorContext(original, 'Failed to fetch data from Finnhub', 'Finnhub');
+
+      expect(error).toBe(original);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toBe('Failed to fetch data from Finnhub: API request failed with status 429');
+      expect(error.provider).toBe('Finnhub');
+    });
+
+    it('should wrap foreign errors', () => {
+      const error = withErrorContext(new TypeError('bad json'), 'Failed to fetch data from EODHD', 'EODHD');
+
+      expect(error).toBeInstanceOf(StocksApiError);
+      expect(error.message).toBe('Failed to fetch data from EODHD: bad json');
+      expect((error as { cause?: unknown }).cause).toBeInstanceOf(TypeError);
+    });
+  });
+
+  describe('createProviderAttempt', () => {
+    it('should describe a failure with its error type and HTTP status', () => {
+      const error = new RateLimitError('rate limited', { status: 429 });
+
+      expect(createProviderAttempt('finnhub', 120, { error })).toEqual({
+        provider: 'finnhub',
+        error,
+        durationMs: 120,
+        errorType: 'RateLimitError',
+        status: 429,
+        empty: false
+      });
+    });
+
+    it('should wrap foreign errors and leave the status out when there was no answer', () => {
+      const attempt = createProviderAttempt('finnhub', 5, { error: 'socket hang up' });
+
+      expect(attempt.error).toBeInstanceOf(Error);
+      expect(attempt.errorType).toBe('Error');
+      expect(attempt).not.toHaveProperty('status');
+    });
+
+    it('should tell an empty answer apart from one with data', () => {
+      expect(createProviderAttempt('eodhd', 30, { empty: true })).toEqual({ provider: 'eodhd', durationMs: 30, empty: true });
+      expect(createProviderAttempt('eodhd', 30, { empty: false }).empty).toBe(false);
+    });
+  });
+
+  describe('AllProvidersFailedError', () => {
+    it('should list every attempt in the message', () => {
+      const error = new AllProvidersFailedError([
+        { provider: 'alphaVantage', error: new RateLimitError('rate limited', { status: 429 }) },
+        { provider: 'finnhub' }
+      ]);
+
+      expect(error.message).toBe('All providers failed (alphaVantage: rate limited; finnhub: empty result)');
+      expect(error.attempts).toHaveLength(2);
+      expect(error.attempts[0].error).toBeInstanceOf(RateLimitError);
+    });
+
+    it('should explain when no provider was available', () => {
+      const error = new AllProvidersFailedError([], { feature: 'news' });
+
+      expect(error.message).toBe('All providers failed: no provider available for news');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { StocksApiEmitter, RequestEndEvent, FallbackEvent } from '../src/events';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { RateLimiter } from '../src/clients/rate-limiter';
+import { ProviderRegistry } from '../src/providers/registry';
+import { DEFAULT_CONFIG, ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { StockApiClient, StockQuote } from '../src/types';
+
+const quote: StockQuote = {
+  symbol: 'AAPL',
+  companyName: 'Apple Inc.',
+  price: 150,
+  change: 1,
+  changePercent: 0.67,
+  timestamp: new Date('2024-01-15T16:00:00Z'),
+  volume: 1000
+};
+
+describe('lifecycle events', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should not let a throwing listener fail the emitter', () => {
+    const emitter = new StocksApiEmitter();
+    emitter.on('cache:hit', () => {
+      throw new Error('listener bug');
+    });
+
+    expect(() => emitter.emit('cache:hit', { method: 'getQuote', key: 'k' })).not.toThrow();
+  });
+
+  describe('client requests', () => {
+    it('should emit request:start and request:end with status, size and latency', async () => {
+      const client = new TwelveDataClient('test-api-key', 1000, { name: 'twelveData' });
+      const events: unknown[] = [];
+      client.events.on('request:start', event => events.push(['start', event]));
+      client.events.on('request:end', event => events.push(['end', event]));
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-length': '11' }),
+        json: async () => ({ data: [] })
+      }) as jest.Mock;
+
+      await client.searchSymbols('apple');
+
+      expect(events).toEqual([
+        ['start', { provider: 'twelveData', endpoint: '/symbol_search' }],
+        ['end', expect.objectContaining({ provider: 'twelveData', endpoint: '/symbol_search', status: 200, bytes: 11 })]
+      ]);
+      expect((events[1] as [string, RequestEndEvent])[1].latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report failed requests with their status and error', async () => {
+      const client = new TwelveDataClient('test-api-key');
+      const ends: RequestEndEvent[] = [];
+      client.events.on('request:end', event => ends.push(event));
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable'
+      }) as jest.Mock;
+
+      await expect(client.searchSymbols('apple')).rejects.toThrow();
+
+      expect(ends).toHaveLength(1);
+      expect(ends[0].provider).toBe('TwelveDataClient');
+      expect(ends[0].status).toBe(503);
+      expect(ends[0].error).toBeInstanceOf(Error);
+    });
+
+    it('should emit ratelimit:wait when the limiter delays a request', async () => {
+      const rateLimiter = new RateLimiter({});
+      jest.spyOn(rateLimiter, 'acquire').mockResolvedValue(250);
+      const client = new TwelveDataClient('test-api-key', 1000, { rateLimiter, name: 'twelveData' });
+      const waits = jest.fn();
+      client.events.on('ratelimit:wait', waits);
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [] })
+      }) as jest.Mock;
+
+      await client.searchSymbols('apple');
+
+      expect(waits).toHaveBeenCalledWith({ provider: 'twelveData', waitMs: 250 });
+    });
+  });
+
+  describe('fallback', () => {
+    it('should emit when a provider is passed over', async () => {
+      const events = new StocksApiEmitter();
+      const fallbacks: FallbackEvent[] = [];
+      events.on('fallback', event => fallbacks.push(event));
+      const registry = new ProviderRegistry(DEFAULT_CONFIG, events);
+      const error = new Error('down');
+      registry.registerProvider('alphaVantage', { getQuote: jest.fn().mockRejectedValue(error) } as unknown as StockApiClient, 1);
+      registry.registerProvider('finnhub', { getQuote: jest.fn().mockResolvedValue(quote) } as unknown as StockApiClient, 2);
+
+      await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+
+      expect(fallbacks).toEqual([{ feature: 'realtime', provider: 'alphaVantage', error }]);
+    });
+  });
+
+  describe('StocksAPI', () => {
+    it('should share its emitter with the clients and report cache hits', async () => {
+      const api = new StocksAPI({
+        providers: { finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig }
+      });
+      jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote);
+      const hits = jest.fn();
+      api.events.on('cache:hit', hits);
+
+      await api.getQuote('AAPL');
+      await api.getQuote('AAPL');
+
+      expect(hits).toHaveBeenCalledTimes(1);
+      expect(hits).toHaveBeenCalledWith({ method: 'getQuote', key: expect.stringContaining('AAPL') });
+      const client = (api as unknown as { registry: ProviderRegistry }).registry.getProvider('finnhub') as FinnhubClient;
+      expect(client.events).toBe(api.events);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import * as providers from '../src/providers';
+import { BaseStockApiClient } from '../src/clients/base-client';
+import { HttpRequest, HttpResponse, HttpTransport } from '../src/clients/http-transport';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { PROVIDER_FACTORIES } from '../src/providers/factories';
+
+describe('provider factories', () => {
+  it('should have a factory for every client the library ships', () => {
+    const shipped = Object.values(providers as Record<string, unknown>)
+      .filter((value): value is abstract new (...args: never[]) => BaseStockApiClient =>
+        typeof value === 'function' && value.prototype instanceof BaseStockApiClient
+      );
+    const built = Object.values(PROVIDER_FACTORIES).map(factory => factory!('test-api-key', 1000, {}));
+
+    expect(shipped.length).toBeGreaterThan(0);
+    for (const client of shipped) {
+      expect(built.some(instance => instance instanceof client)).toBe(true);
+    }
+  });
+
+  it('should register Tiingo when it is configured', () => {
+    const api = new StocksAPI({ providers: { tiingo: { apiKey: 'tiingo-key' } as ApiProviderConfig } });
+
+    expect(api.getCapabilities().tiingo).toEqual(expect.objectContaining({
+      getQuote: expect.objectContaining({ supported: true })
+    }));
+  });
+
+  it('should pass the configured base URL to the client', async () => {
+    const urls: string[] = [];
+    const transport: HttpTransport = {
+      request: async <T>(request: HttpRequest): Promise<HttpResponse<T>> => {
+        urls.push(request.url);
+        return { ok: false, status: 503, statusText: 'Service Unavailable', headers: {}, data: {} as T };
+      }
+    };
+    const api = new StocksAPI({
+      transport,
+      maxRetries: 0,
+      providers: { tiingo: { apiKey: 'tiingo-key', baseUrl: 'http://127.0.0.1:8080' } as ApiProviderConfig },
+      routing: { realtime: ['tiingo'] }
+    });
+
+    await api.getQuote('AAPL', { includeCompanyName: false }).catch(() => undefined);
+
+    expect(urls.length).toBeGreaterThan(0);
+    expect(urls.every(url => url.startsWith('http://127.0.0.1:8080/'))).toBe(true);
+  });
+});
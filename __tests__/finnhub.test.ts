@@ -471,6 +471,8 @@ describe('FinnhubClient', () => {
       expect(news[0].imageUrl).toBe('https://example.com/image.jpg');
       expect(news[0].relatedSymbols).toEqual(['AAPL']);
       expect(news[0].publishedAt).toEqual(new Date('2023-05-15T14:30:00.000Z'));
+      // The key pool adds the token, so the request does not pin one key
+      expect((client as any).makeRequest).toHaveBeenCalledWith('/news', { category: 'general' });
     });
     
     it('should filter news by symbols', async () => {
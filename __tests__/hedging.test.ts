@@ -0,0 +1,132 @@
+import { ProviderRegistry } from '../src/providers/registry';
+import { DEFAULT_CONFIG, StocksApiConfig } from '../src/config';
+import { StockApiClient, StockQuote } from '../src/types';
+import { AllProvidersFailedError, RequestAbortedError } from '../src/errors';
+import { getCallSignal, delay, runWithCallOptions } from '../src/clients/call-options';
+import { HedgeEvent, StocksApiEmitter } from '../src/events';
+
+const quote = (price: number): StockQuote => ({
+  symbol: 'AAPL',
+  price,
+  change: 0,
+  changePercent: 0,
+  timestamp: new Date('2024-01-15T16:00:00Z'),
+  volume: 1000
+});
+
+// Client answering after a delay, unless its request is aborted first
+const slowClient = (ms: number, price: number) => {
+  const signals: AbortSignal[] = [];
+  const getQuote = jest.fn(async () => {
+    signals.push(getCallSignal() as AbortSignal);
+    await delay(ms);
+    return quote(price);
+  });
+  return { client: { getQuote } as unknown as StockApiClient, getQuote, signals };
+};
+
+describe('hedged requests', () => {
+  let config: StocksApiConfig;
+
+  beforeEach(() => {
+    config = { ...DEFAULT_CONFIG, hedging: { delayMs: 20 } };
+  });
+
+  it('should take the answer of the next provider when the first is slow, aborting the first', async () => {
+    const registry = new ProviderRegistry(config);
+    const slow = slowClient(1000, 150);
+    const fast = slowClient(5, 151);
+    registry.registerProvider('alphaVantage', slow.client, 1);
+    registry.registerProvider('finnhub', fast.client, 2);
+
+    const startedAt = Date.now();
+    const result = await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+
+    expect(result.price).toBe(151);
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(slow.signals[0].aborted).toBe(true);
+    expect(slow.signals[0].reason).toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('should not ask the next provider when the first answers in time', async () => {
+    const registry = new ProviderRegistry(config);
+    const first = slowClient(1, 150);
+    const second = slowClient(1, 151);
+    registry.registerProvider('alphaVantage', first.client, 1);
+    registry.registerProvider('finnhub', second.client, 2);
+
+    const result = await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+
+    expect(result.price).toBe(150);
+    expect(second.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('should move on right away when a provider fails', async () => {
+    const registry = new ProviderRegistry({ ...config, hedging: { delayMs: 5000 } });
+    registry.registerProvider('alphaVantage', { getQuote: jest.fn().mockRejectedValue(new Error('down')) } as unknown as StockApiClient, 1);
+    registry.registerProvider('finnhub', slowClient(1, 151).client, 2);
+
+    const startedAt = Date.now();
+    const result = await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+
+    expect(result.price).toBe(151);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('should report every attempt when no provider answers', async () => {
+    const registry = new ProviderRegistry(config);
+    const down = new Error('down');
+    registry.registerProvider('alphaVantage', { getQuote: jest.fn().mockRejectedValue(down) } as unknown as StockApiClient, 1);
+    registry.registerProvider('finnhub', { getQuote: jest.fn().mockResolvedValue({}) } as unknown as StockApiClient, 2);
+
+    const error = await registry.withFallback('realtime', provider => provider.getQuote('AAPL')).catch(e => e);
+
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+    expect(error.attempts).toEqual([
+      { provider: 'alphaVantage', error: down, durationMs: expect.any(Number), errorType: 'Error', empty: false },
+      { provider: 'finnhub', durationMs: expect.any(Number), empty: true }
+    ]);
+  });
+
+  it('should only hedge the configured features', async () => {
+    const registry = new ProviderRegistry(config);
+    const slow = slowClient(60, 150);
+    const fast = slowClient(1, 151);
+    registry.registerProvider('alphaVantage', slow.client, 1);
+    registry.registerProvider('finnhub', fast.client, 2);
+
+    const result = await registry.withFallback('fundamentals', provider => provider.getQuote('AAPL'));
+
+    expect(result.price).toBe(150);
+    expect(fast.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('should emit a hedge event and honour a per-call delay', async () => {
+    const events = new StocksApiEmitter();
+    const hedges: HedgeEvent[] = [];
+    events.on('hedge', event => hedges.push(event));
+    const registry = new ProviderRegistry(DEFAULT_CONFIG, events);
+    registry.registerProvider('alphaVantage', slowClient(1000, 150).client, 1);
+    registry.registerProvider('finnhub', slowClient(1, 151).client, 2);
+
+    const result = await registry.withFallback('getQuote', provider => provider.getQuote('AAPL'), { hedgeMs: 10 });
+
+    expect(result.price).toBe(151);
+    expect(hedges).toEqual([{ feature: 'getQuote', provider: 'finnhub', waitingFor: ['alphaVantage'], delayMs: 10 }]);
+  });
+
+  it('should stop every request when the caller aborts', async () => {
+    const registry = new ProviderRegistry(config);
+    const first = slowClient(1000, 150);
+    const second = slowClient(1000, 151);
+    registry.registerProvider('alphaVantage', first.client, 1);
+    registry.registerProvider('finnhub', second.client, 2);
+
+    const error = await runWithCallOptions({ timeoutMs: 50 }, () =>
+      registry.withFallback('realtime', provider => provider.getQuote('AAPL'))
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect([...first.signals, ...second.signals].every(signal => signal.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+import { HttpRequest, HttpResponse, HttpTransport, FetchTransport, AxiosTransport } from '../src/clients/http-transport';
+import { EODHDClient } from '../src/providers/eodhd';
+import { TiingoClient } from '../src/providers/tiingo';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { ApiRequestError, ProviderTimeoutError, RateLimitError } from '../src/errors';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+
+// Transport that records requests and answers each with the next queued response
+function recordingTransport(...responses: Partial<HttpResponse>[]): HttpTransport & { requests: HttpRequest[] } {
+  const requests: HttpRequest[] = [];
+  return {
+    requests,
+    request: async <T>(request: HttpRequest) => {
+      requests.push(request);
+      const response = responses.shift() || {};
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: undefined,
+        ...response
+      } as HttpResponse<T>;
+    }
+  };
+}
+
+describe('HTTP transport', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('provider requests', () => {
+    it('should keep the path of the base URL and pass the API key as the provider expects', async () => {
+      const transport = recordingTransport({ data: { code: 'AAPL.US', close: 150 } });
+      const client = new EODHDClient('eod-key', 5000, { transport });
+
+      await client['makeRequest']('/real-time/AAPL.US', { fmt: 'json', filter: undefined });
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.requests[0].url).toBe('https://eodhd.com/api/real-time/AAPL.US?fmt=json&api_token=eod-key');
+      expect(transport.requests[0].timeoutMs).toBe(5000);
+      expect(transport.requests[0].headers).toMatchObject({
+        'Accept': 'application/json',
+        'User-Agent': 'stocksapi-typescript/1.0.0'
+      });
+    });
+
+    it('should send header credentials without putting them in the URL', async () => {
+      const transport = recordingTransport({ data: [] });
+      const client = new TiingoClient('tiingo-key', 30000, { transport });
+
+      await client['makeRequest']('/tiingo/daily/AAPL/prices', { sort: '-date' });
+
+      expect(transport.requests[0].url).toBe('https://api.tiingo.com/tiingo/daily/AAPL/prices?sort=-date');
+      expect(transport.requests[0].headers).toMatchObject({
+        'Authorization': 'Token tiingo-key',
+        'Content-Type': 'application/json'
+      });
+    });
+
+    it('should turn error responses into typed errors carrying the provider message', async () => {
+      const transport = recordingTransport({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { 'retry-after': '3' },
+        data: { message: 'You have run out of API credits' }
+      });
+      const client = new TwelveDataClient('td-key', 30000, { transport });
+
+      const error: any = await client['makeRequest']('/quote', { symbol: 'AAPL' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toBe(
+        'Failed to fetch data from Twelve Data: API request failed with status 429: Too Many Requests (You have run out of API credits)'
+      );
+      expect(error.provider).toBe('Twelve Data');
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it('should wrap transport failures in an ApiRequestError', async () => {
+      const transport: HttpTransport = {
+        request: jest.fn().mockRejectedValue(new Error('socket hang up'))
+      };
+      const client = new TwelveDataClient('td-key', 30000, { transport });
+
+      const error: any = await client['makeRequest']('/quote', { symbol: 'AAPL' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.message).toBe('Failed to fetch data from Twelve Data: API request failed: socket hang up');
+    });
+
+    it('should send every provider request of StocksAPI through the configured transport', async () => {
+      const transport = recordingTransport({
+        data: { symbol: 'AAPL', name: 'Apple Inc.', close: '150', change: '1', percent_change: '0.67', volume: '1000' }
+      });
+      const api = new StocksAPI({
+        transport,
+        cache: { enabled: false },
+        providers: { twelveData: { apiKey: 'td-key' } as ApiProviderConfig }
+      });
+
+      await api.getQuote('AAPL', { includeCompanyName: false }).catch(() => undefined);
+
+      expect(transport.requests.length).toBeGreaterThan(0);
+      expect(transport.requests[0].url).toContain('https://api.twelvedata.com/quote');
+    });
+  });
+
+  describe('FetchTransport', () => {
+    it('should resolve error responses with lower-case headers and a parsed body', async () => {
+      global.fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'Invalid symbol' }), {
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc' }
+      }));
+
+      const response = await new FetchTransport().request({ url: 'https://example.com/quote', headers: {}, timeoutMs: 1000 });
+
+      expect(response).toMatchObject({ ok: false, status: 404, statusText: 'Not Found', data: { error: 'Invalid symbol' } });
+      expect(response.headers['x-request-id']).toBe('abc');
+    });
+
+    it('should reject with a ProviderTimeoutError once the timeout passes', async () => {
+      global.fetch = jest.fn((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+      })) as unknown as typeof fetch;
+
+      const error = await new FetchTransport()
+        .request({ url: 'https://example.com/quote', headers: {}, timeoutMs: 10 })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderTimeoutError);
+    });
+  });
+
+  describe('AxiosTransport', () => {
+    it('should resolve every status instead of throwing', async () => {
+      const client = {
+        request: jest.fn().mockResolvedValue({
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: { 'Retry-After': '5' },
+          data: { message: 'Maintenance' }
+        })
+      };
+
+      const response = await new AxiosTransport(client as any).request({
+        url: 'https://example.com/quote',
+        headers: { 'Accept': 'application/json' },
+        timeoutMs: 1000
+      });
+
+      expect(response).toEqual({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: { 'retry-after': '5' },
+        data: { message: 'Maintenance' }
+      });
+      expect(client.request).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://example.com/quote',
+        method: 'GET',
+        timeout: 1000
+      }));
+    });
+  });
+});
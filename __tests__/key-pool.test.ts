@@ -0,0 +1,158 @@
+import { KeyPool, maskApiKey } from '../src/clients/key-pool';
+import { HttpRequest, HttpTransport } from '../src/clients/http-transport';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { RateLimitError } from '../src/errors';
+import { ApiProviderConfig, getProviderRateLimits, validateConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+
+describe('KeyPool', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should take turns between keys', () => {
+    const pool = new KeyPool(['key-a', 'key-b', 'key-c']);
+
+    expect([pool.next(), pool.next(), pool.next(), pool.next()]).toEqual(['key-a', 'key-b', 'key-c', 'key-a']);
+  });
+
+  it('should pick the least used key', () => {
+    const pool = new KeyPool(['key-a', 'key-b'], { rotation: 'least-used' });
+    pool.next();
+    pool.next();
+    pool.next();
+
+    expect(pool.getUsage().map(usage => usage.requests)).toEqual([2, 1]);
+    expect(pool.next()).toBe('key-b');
+  });
+
+  it('should skip a rejected key until its cooldown ends', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const pool = new KeyPool(['key-a', 'key-b'], { cooldownMs: 60_000 });
+
+    pool.reject('key-a');
+    expect([pool.next(), pool.next()]).toEqual(['key-b', 'key-b']);
+
+    now.mockReturnValue(1_060_000);
+    expect([pool.next(), pool.next()]).toEqual(['key-a', 'key-b']);
+  });
+
+  it('should fail with the shortest wait once every key is cooling down', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const pool = new KeyPool(['key-a', 'key-b'], { cooldownMs: 60_000 });
+    pool.reject('key-a', 5000);
+    pool.reject('key-b');
+
+    let error: any;
+    try {
+      pool.next();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(5000);
+  });
+
+  it('should set a key aside for the cooldown when asked to wait 0ms', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const pool = new KeyPool(['key-a', 'key-b'], { cooldownMs: 60_000 });
+
+    pool.reject('key-a', 0);
+
+    expect(pool.getUsage()[0].coolingDownUntil).toEqual(new Date(1_060_000));
+  });
+
+  it('should keep using a single key after a rejection', () => {
+    const pool = new KeyPool(['only-key']);
+    pool.reject('only-key');
+
+    expect(pool.next()).toBe('only-key');
+    expect(pool.getUsage()[0]).toMatchObject({ requests: 1, rejections: 1 });
+    expect(pool.getUsage()[0].coolingDownUntil).toBeUndefined();
+  });
+
+  it('should mask keys in usage reports', () => {
+    expect(maskApiKey('abcdefgh1234')).toBe('****1234');
+    expect(maskApiKey('short')).toBe('****');
+  });
+
+  describe('with a client', () => {
+    it('should send a refused request again with the next key', async () => {
+      const requests: HttpRequest[] = [];
+      const transport: HttpTransport = {
+        request: async <T>(request: HttpRequest) => {
+          requests.push(request);
+          const limited = request.url.includes('apikey=first-key');
+          return {
+            ok: !limited,
+            status: limited ? 429 : 200,
+            statusText: limited ? 'Too Many Requests' : 'OK',
+            headers: {},
+            data: (limited ? {} : { price: '150' }) as T
+          };
+        }
+      };
+      const keyPool = new KeyPool(['first-key', 'second-key']);
+      const client = new TwelveDataClient('first-key', 30000, { transport, keyPool });
+
+      const data = await client['makeRequest']('/price', { symbol: 'AAPL' });
+
+      expect(data).toEqual({ price: '150' });
+      expect(requests.map(request => new URL(request.url).searchParams.get('apikey'))).toEqual(['first-key', 'second-key']);
+      expect(keyPool.getUsage()[0]).toMatchObject({ requests: 1, rejections: 1 });
+      expect(keyPool.getUsage()[0].coolingDownUntil).toBeInstanceOf(Date);
+    });
+
+    it('should try each key once when every one is refused without a wait', async () => {
+      const requests: HttpRequest[] = [];
+      const transport: HttpTransport = {
+        request: async <T>(request: HttpRequest) => {
+          requests.push(request);
+          return { ok: false, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '0' }, data: {} as T };
+        }
+      };
+      const keyPool = new KeyPool(['first-key', 'second-key', 'third-key']);
+      const client = new TwelveDataClient('first-key', 30000, { transport, keyPool });
+
+      await expect(client['makeRequest']('/price', { symbol: 'AAPL' })).rejects.toThrow(RateLimitError);
+
+      expect(requests.map(request => new URL(request.url).searchParams.get('apikey')))
+        .toEqual(['first-key', 'second-key', 'third-key']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should take the first of apiKeys when apiKey is missing', () => {
+      const config = validateConfig({
+        providers: { twelveData: { apiKeys: ['key-a', 'key-b'] } as ApiProviderConfig }
+      });
+
+      expect(config.providers.twelveData).toMatchObject({ enabled: true, apiKey: 'key-a' });
+    });
+
+    it('should add up the quota of every key', () => {
+      const limits = getProviderRateLimits({
+        apiKey: 'key-a',
+        apiKeys: ['key-b', 'key-a'],
+        rateLimit: 8,
+        rateLimits: { day: 800 }
+      } as ApiProviderConfig);
+
+      expect(limits).toEqual({ minute: 16, day: 1600 });
+    });
+
+    it('should report the usage of every key through StocksAPI', () => {
+      const api = new StocksAPI({
+        providers: {
+          alphaVantage: { apiKey: 'alpha-key-0001', apiKeys: ['alpha-key-0002'] } as ApiProviderConfig
+        }
+      });
+
+      expect(api.getKeyUsage().alphaVantage).toEqual([
+        { key: '****0001', requests: 0, rejections: 0 },
+        { key: '****0002', requests: 0, rejections: 0 }
+      ]);
+    });
+  });
+});
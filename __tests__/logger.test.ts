@@ -0,0 +1,132 @@
+import { Logger, LogFields, createConsoleLogger, createScopedLogger, redactSecrets } from '../src/logger';
+import { ApiRequestError } from '../src/errors';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { ApiProviderConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  };
+}
+
+describe('logger', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe('createConsoleLogger', () => {
+    it('should only write entries at or above its level', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const info = jest.spyOn(console, 'info').mockImplementation(() => {});
+      const logger = createConsoleLogger('warn');
+
+      logger.info('ignored');
+      logger.warn('Provider failed', { provider: 'finnhub' });
+
+      expect(info).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith('Provider failed', { provider: 'finnhub' });
+    });
+  });
+
+  describe('redactSecrets', () => {
+    it('should mask credential query parameters', () => {
+      expect(redactSecrets('https://api.example.com/quote?symbol=AAPL&apikey=abc123&format=json'))
+        .toBe('https://api.example.com/quote?symbol=AAPL&apikey=[REDACTED]&format=json');
+      expect(redactSecrets('http://api.marketstack.com/v1/eod?access_key=abc123'))
+        .toBe('http://api.marketstack.com/v1/eod?access_key=[REDACTED]');
+    });
+
+    it('should mask the given secrets anywhere', () => {
+      expect(redactSecrets('key abc123 rejected', ['abc123'])).toBe('key [REDACTED] rejected');
+    });
+  });
+
+  describe('createScopedLogger', () => {
+    it('should add its fields and mask secrets in nested values', () => {
+      const target = createMockLogger();
+      const logger = createScopedLogger(target, { fields: { provider: 'finnhub' }, secrets: ['abc123'] });
+
+      logger.warn('Request to ?token=abc123 failed', { symbol: 'AAPL', params: { token: 'abc123' } });
+
+      expect(target.warn).toHaveBeenCalledWith('Request to ?token=[REDACTED] failed', {
+        provider: 'finnhub',
+        symbol: 'AAPL',
+        params: { token: '[REDACTED]' }
+      });
+    });
+
+    it('should mask errors without losing their type', () => {
+      const target = createMockLogger();
+      const logger = createScopedLogger(target, { secrets: ['abc123'] });
+      const error = new ApiRequestError('GET /quote?apikey=abc123 failed', { status: 401 });
+
+      logger.error('Request failed', { error });
+
+      const logged = (target.error.mock.calls[0][1] as LogFields).error as ApiRequestError;
+      expect(logged).toBeInstanceOf(ApiRequestError);
+      expect(logged.status).toBe(401);
+      expect(logged.message).toBe('GET /quote?apikey=[REDACTED] failed');
+      expect(logged.stack).not.toContain('abc123');
+      expect(error.message).toContain('abc123');
+    });
+  });
+
+  describe('clients', () => {
+    it('should log failures with the provider and without the API key', async () => {
+      const logger = createMockLogger();
+      const client = new TwelveDataClient('secret-key', 1000, { logger, name: 'twelveData' });
+      global.fetch = jest.fn().mockRejectedValue(
+        new Error('connect ECONNREFUSED https://api.twelvedata.com/symbol_search?symbol=apple&apikey=secret-key')
+      ) as jest.Mock;
+
+      await expect(client.searchSymbols('apple')).rejects.toThrow();
+
+      expect(logger.error).toHaveBeenCalledWith('API request failed', expect.objectContaining({
+        provider: 'twelveData',
+        endpoint: '/symbol_search'
+      }));
+      expect(logger.error).toHaveBeenCalledWith('Failed to search symbols', expect.objectContaining({
+        provider: 'twelveData',
+        method: 'searchSymbols',
+        query: 'apple'
+      }));
+      const logged = logger.error.mock.calls.map(([message, fields]) => {
+        const error = (fields as LogFields).error as Error;
+        return `${message} ${error.message} ${error.stack}`;
+      });
+      expect(logged.join('\n')).not.toContain('secret-key');
+    });
+
+    it('should log nothing to the console by default', async () => {
+      const warn = jest.spyOn(console, 'warn');
+      const error = jest.spyOn(console, 'error');
+      const client = new TwelveDataClient('secret-key');
+      global.fetch = jest.fn().mockRejectedValue(new Error('network down')) as jest.Mock;
+
+      await expect(client.searchSymbols('apple')).rejects.toThrow();
+
+      expect(warn).not.toHaveBeenCalled();
+      expect(error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('StocksAPI', () => {
+    it('should pass its logger to configuration checks', () => {
+      const logger = createMockLogger();
+
+      new StocksAPI({
+        logger,
+        providers: { finnhub: { apiKey: '' } as ApiProviderConfig }
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith('API key not found, disabling provider', { provider: 'finnhub' });
+    });
+  });
+});
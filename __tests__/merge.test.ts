@@ -0,0 +1,122 @@
+import { mergeRecords, canImprove, COMPANY_PROFILE_FIELDS } from '../src/providers/merge';
+import { EODHDClient } from '../src/providers/eodhd';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { ApiProviderConfig, StocksApiConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { CompanyProfile, FinancialMetrics } from '../src/types';
+
+const profile = (fields: Partial<CompanyProfile>): CompanyProfile => ({
+  symbol: 'AAPL',
+  name: 'Apple Inc.',
+  description: '',
+  exchange: 'NASDAQ',
+  currency: 'USD',
+  lastUpdated: new Date('2024-01-15T00:00:00Z'),
+  ...fields
+});
+
+describe('field-level merge', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('mergeRecords', () => {
+    it('should fill missing fields from the next records and note where each came from', () => {
+      const merged = mergeRecords<CompanyProfile>([
+        { provider: 'tiingo', record: profile({ description: 'Designs phones', sector: undefined }) },
+        { provider: 'eodhd', record: profile({ description: 'Consumer electronics', sector: 'Technology', industry: 'Hardware' }) }
+      ]);
+
+      expect(merged.record).toMatchObject({
+        description: 'Designs phones',
+        sector: 'Technology',
+        industry: 'Hardware'
+      });
+      expect(merged.sources).toMatchObject({ description: 'tiingo', sector: 'eodhd', industry: 'eodhd', name: 'tiingo' });
+    });
+
+    it('should take a field from the provider ranked first for it', () => {
+      const merged = mergeRecords<CompanyProfile>([
+        { provider: 'tiingo', record: profile({ marketCap: 1, employees: 10 }) },
+        { provider: 'eodhd', record: profile({ marketCap: 2, employees: 20 }) }
+      ], { marketCap: ['eodhd'] });
+
+      expect(merged.record.marketCap).toBe(2);
+      expect(merged.record.employees).toBe(10);
+    });
+
+    it('should keep asking while a provider ranked higher for a field is left', () => {
+      const merged = mergeRecords<CompanyProfile>([
+        { provider: 'tiingo', record: profile({ sector: 'Tech' }) }
+      ]);
+
+      expect(canImprove(merged, ['sector'], ['eodhd'])).toBe(false);
+      expect(canImprove(merged, ['sector'], ['eodhd'], { sector: ['eodhd'] })).toBe(true);
+      expect(canImprove(merged, ['sector', 'industry'], ['eodhd'])).toBe(true);
+      expect(canImprove(merged, ['sector', 'industry'], [])).toBe(false);
+    });
+  });
+
+  describe('StocksAPI', () => {
+    function createApi(config: Partial<StocksApiConfig> = {}): StocksAPI {
+      return new StocksAPI({
+        cache: { enabled: false },
+        providers: {
+          eodhd: { apiKey: 'test-api-key' } as ApiProviderConfig,
+          finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig
+        },
+        routing: { fundamentals: ['finnhub', 'eodhd'] },
+        ...config
+      });
+    }
+
+    it('should fill the profile from the next provider when merging', async () => {
+      const api = createApi({ merge: {} });
+      jest.spyOn(FinnhubClient.prototype, 'getCompanyProfile').mockResolvedValue(profile({ description: 'Phones' }));
+      jest.spyOn(EODHDClient.prototype, 'getCompanyProfile').mockResolvedValue(profile({ sector: 'Technology', industry: 'Hardware' }));
+
+      const result = await api.getCompanyProfile('AAPL');
+
+      expect(result).toMatchObject({ description: 'Phones', sector: 'Technology', industry: 'Hardware' });
+    });
+
+    it('should return the first record as it is without merging', async () => {
+      const api = createApi();
+      jest.spyOn(FinnhubClient.prototype, 'getCompanyProfile').mockResolvedValue(profile({ description: 'Phones' }));
+      const eodhd = jest.spyOn(EODHDClient.prototype, 'getCompanyProfile');
+
+      const result = await api.getCompanyProfile('AAPL');
+
+      expect(result.sector).toBeUndefined();
+      expect(eodhd).not.toHaveBeenCalled();
+    });
+
+    it('should merge financial metrics per call with the configured precedence', async () => {
+      const api = createApi({ merge: { methods: ['getCompanyProfile'], precedence: { peRatio: ['eodhd'] } } });
+      const metrics = (fields: Partial<FinancialMetrics>): FinancialMetrics => ({
+        symbol: 'AAPL',
+        asOfDate: new Date('2024-01-15T00:00:00Z'),
+        ...fields
+      });
+      jest.spyOn(FinnhubClient.prototype, 'getFinancialMetrics').mockResolvedValue(metrics({ peRatio: 30, beta: 1.2 }));
+      jest.spyOn(EODHDClient.prototype, 'getFinancialMetrics').mockResolvedValue(metrics({ peRatio: 29, revenue: 100 }));
+
+      const unmerged = await api.getFinancialMetrics('AAPL');
+      const merged = await api.getFinancialMetrics('AAPL', undefined, undefined, undefined, { merge: true });
+
+      expect(unmerged.peRatio).toBe(30);
+      expect(merged).toMatchObject({ peRatio: 29, beta: 1.2, revenue: 100 });
+    });
+
+    it('should stop asking once no field is left to fill', async () => {
+      const api = createApi({ merge: {} });
+      const complete = Object.fromEntries(COMPANY_PROFILE_FIELDS.map(field => [field, 'x'])) as unknown as CompanyProfile;
+      jest.spyOn(FinnhubClient.prototype, 'getCompanyProfile').mockResolvedValue(complete);
+      const eodhd = jest.spyOn(EODHDClient.prototype, 'getCompanyProfile');
+
+      await api.getCompanyProfile('AAPL');
+
+      expect(eodhd).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheStore } from '../src/cache';
+import { HttpRequest, HttpResponse, HttpTransport } from '../src/clients/http-transport';
+import { ApiProviderConfig, StocksApiConfig } from '../src/config';
+import { StocksAPI } from '../src/stocks-api';
+import { getResultMeta } from '../src/meta';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { EODHDClient } from '../src/providers/eodhd';
+import { CompanyProfile } from '../src/types';
+
+const TWELVE_DATA_QUOTE = {
+  symbol: 'AAPL',
+  name: 'Apple Inc.',
+  close: '150',
+  previous_close: '149',
+  change: '1',
+  percent_change: '0.67',
+  volume: '1000',
+  timestamp: 1705334400
+};
+
+// Finnhub is down; Twelve Data answers every request
+const transport: HttpTransport = {
+  request: async <T>(request: HttpRequest): Promise<HttpResponse<T>> => request.url.includes('finnhub')
+    ? { ok: false, status: 503, statusText: 'Service Unavailable', headers: {}, data: {} as T }
+    : { ok: true, status: 200, statusText: 'OK', headers: {}, data: TWELVE_DATA_QUOTE as T }
+};
+
+function createApi(config: Partial<StocksApiConfig> = {}): StocksAPI {
+  return new StocksAPI({
+    transport,
+    metadata: true,
+    maxRetries: 0,
+    providers: {
+      finnhub: { apiKey: 'finnhub-key' } as ApiProviderConfig,
+      twelveData: { apiKey: 'twelve-data-key' } as ApiProviderConfig
+    },
+    routing: { realtime: ['finnhub', 'twelveData'] },
+    ...config
+  });
+}
+
+describe('result metadata', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should tell which provider and endpoint served a result after how many attempts', async () => {
+    const api = createApi();
+
+    const quote = await api.getQuote('AAPL', { includeCompanyName: false });
+    const meta = getResultMeta(quote);
+
+    expect(meta).toEqual({
+      provider: 'twelveData',
+      endpoint: expect.stringMatching(/^\//),
+      fetchedAt: expect.any(Date),
+      cache: 'miss',
+      attempts: 2,
+      delayMs: expect.any(Number)
+    });
+    expect(meta?.endpoint).not.toContain('twelve-data-key');
+  });
+
+  it('should keep the metadata out of JSON and key listings', async () => {
+    const api = createApi();
+
+    const quote = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(Object.keys(quote)).not.toContain('meta');
+    expect(JSON.parse(JSON.stringify(quote))).not.toHaveProperty('meta');
+  });
+
+  it('should report a cached result as a hit without attempts', async () => {
+    const api = createApi();
+
+    const first = await api.getQuote('AAPL', { includeCompanyName: false });
+    const second = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(getResultMeta(second)).toMatchObject({
+      provider: 'twelveData',
+      cache: 'hit',
+      attempts: 0,
+      fetchedAt: getResultMeta(first)?.fetchedAt
+    });
+    expect(getResultMeta(first)?.cache).toBe('miss');
+  });
+
+  it('should keep the metadata of a result read back from a file cache', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stocksapi-meta-'));
+    try {
+      const cache = { store: new FileCacheStore(directory) };
+      const first = await createApi({ cache }).getQuote('AAPL', { includeCompanyName: false });
+      const second = await createApi({ cache }).getQuote('AAPL', { includeCompanyName: false });
+
+      expect(second.price).toBe(first.price);
+      expect(getResultMeta(second)).toMatchObject({
+        provider: 'twelveData',
+        endpoint: getResultMeta(first)?.endpoint,
+        cache: 'hit',
+        attempts: 0,
+        fetchedAt: getResultMeta(first)?.fetchedAt
+      });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should tell which provider supplied each field of a merged record', async () => {
+    const api = createApi({
+      merge: {},
+      providers: {
+        finnhub: { apiKey: 'finnhub-key' } as ApiProviderConfig,
+        eodhd: { apiKey: 'eodhd-key' } as ApiProviderConfig
+      },
+      routing: { fundamentals: ['finnhub', 'eodhd'] }
+    });
+    const profile = (fields: Partial<CompanyProfile>): CompanyProfile => ({
+      symbol: 'AAPL',
+      name: 'Apple Inc.',
+      description: '',
+      exchange: 'NASDAQ',
+      currency: 'USD',
+      lastUpdated: new Date(),
+      ...fields
+    });
+    jest.spyOn(FinnhubClient.prototype, 'getCompanyProfile').mockResolvedValue(profile({ description: 'Phones' }));
+    jest.spyOn(EODHDClient.prototype, 'getCompanyProfile').mockResolvedValue(profile({ sector: 'Technology' }));
+
+    const meta = getResultMeta(await api.getCompanyProfile('AAPL'));
+
+    expect(meta?.provider).toBe('finnhub');
+    expect(meta?.attempts).toBe(2);
+    expect(meta?.fields).toMatchObject({ description: 'finnhub', sector: 'eodhd', name: 'finnhub' });
+  });
+
+  it('should trace every provider asked in debug mode', async () => {
+    const api = createApi({ metadata: false, debug: true });
+
+    const first = await api.getQuote('AAPL', { includeCompanyName: false });
+    const second = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(getResultMeta(first)?.trace).toEqual([
+      {
+        provider: 'finnhub',
+        error: expect.any(Error),
+        durationMs: expect.any(Number),
+        errorType: 'ApiRequestError',
+        status: 503,
+        empty: false
+      },
+      { provider: 'twelveData', durationMs: expect.any(Number), empty: false }
+    ]);
+    expect(getResultMeta(second)?.trace).toEqual([]);
+  });
+
+  it('should leave the trace out without debug mode', async () => {
+    const api = createApi();
+
+    const quote = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(getResultMeta(quote)).not.toHaveProperty('trace');
+  });
+
+  it('should not attach metadata unless enabled', async () => {
+    const api = createApi({ metadata: false });
+
+    const quote = await api.getQuote('AAPL', { includeCompanyName: false });
+
+    expect(getResultMeta(quote)).toBeUndefined();
+  });
+});
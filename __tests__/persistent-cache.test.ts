@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheStore, HistoricalCache, MemoryLRUCache, DateRange } from '../src/cache';
+import { StocksAPI } from '../src/stocks-api';
+import { ApiProviderConfig } from '../src/config';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { TimeSeriesPoint, Dividend } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const bar = (date: string, close: number = 100): TimeSeriesPoint => ({
+  timestamp: new Date(`${date}T00:00:00Z`),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000
+});
+
+// Daily bars for every day of a range, like a provider answering the request
+const barsFor = (range: DateRange): TimeSeriesPoint[] => {
+  const bars: TimeSeriesPoint[] = [];
+  for (let time = range.start.getTime(); time <= range.end.getTime(); time += DAY) {
+    bars.push(bar(new Date(time).toISOString().slice(0, 10)));
+  }
+  return bars;
+};
+
+describe('persistent cache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stocksapi-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('FileCacheStore', () => {
+    it('should keep entries across instances and restore dates', async () => {
+      await new FileCacheStore(directory).set('bars', [bar('2024-01-02', 185.64)]);
+
+      const [restored] = (await new FileCacheStore(directory).get<TimeSeriesPoint[]>('bars'))!;
+
+      expect(restored.timestamp).toBeInstanceOf(Date);
+      expect(restored.timestamp.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+      expect(restored.close).toBe(185.64);
+    });
+
+    it('should expire entries', async () => {
+      const store = new FileCacheStore(directory);
+      await store.set('quote', 150, -1);
+
+      expect(await store.get('quote')).toBeUndefined();
+    });
+
+    it('should delete and clear entries', async () => {
+      const store = new FileCacheStore(directory);
+      await store.set('a', 1);
+      await store.set('b', 2);
+      await store.delete('a');
+
+      expect(await store.get('a')).toBeUndefined();
+      await store.clear();
+      expect(await store.get('b')).toBeUndefined();
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it('should keep concurrent writes of one key apart', async () => {
+      const store = new FileCacheStore(directory);
+      const values = Array.from({ length: 10 }, (_, index) => Array(1000).fill(index));
+
+      await Promise.all(values.map(value => store.set('bars', value)));
+
+      expect(values).toContainEqual(await store.get('bars'));
+      expect(await fs.readdir(directory)).toHaveLength(1);
+    });
+
+    it('should treat a missing directory as empty', async () => {
+      const store = new FileCacheStore(path.join(directory, 'missing'));
+
+      expect(await store.get('a')).toBeUndefined();
+      await expect(store.clear()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('HistoricalCache', () => {
+    const now = new Date('2024-06-10T15:00:00Z');
+    const range = (start: string, end: string): DateRange => ({
+      start: new Date(`${start}T00:00:00Z`),
+      end: new Date(`${end}T00:00:00Z`)
+    });
+
+    it('should only fetch the part of a range that is not stored', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (requested: DateRange) => barsFor(requested));
+
+      await cache.getRange('AAPL', range('2024-01-01', '2024-01-10'), point => point.timestamp, fetchRange, { now });
+      const result = await cache.getRange('AAPL', range('2024-01-05', '2024-01-20'), point => point.timestamp, fetchRange, { now });
+
+      expect(fetchRange).toHaveBeenCalledTimes(2);
+      expect(fetchRange.mock.calls[1][0]).toEqual({
+        start: new Date('2024-01-11T00:00:00Z'),
+        end: new Date('2024-01-20T23:59:59.999Z')
+      });
+      expect(result).toHaveLength(16);
+      expect(result[0].timestamp.toISOString()).toBe('2024-01-05T00:00:00.000Z');
+    });
+
+    it('should fill gaps between stored ranges', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (requested: DateRange) => barsFor(requested));
+
+      await cache.getRange('AAPL', range('2024-01-01', '2024-01-05'), point => point.timestamp, fetchRange, { now });
+      await cache.getRange('AAPL', range('2024-01-10', '2024-01-15'), point => point.timestamp, fetchRange, { now });
+      fetchRange.mockClear();
+      await cache.getRange('AAPL', range('2024-01-01', '2024-01-15'), point => point.timestamp, fetchRange, { now });
+
+      expect(fetchRange).toHaveBeenCalledTimes(1);
+      expect(fetchRange.mock.calls[0][0].start).toEqual(new Date('2024-01-06T00:00:00Z'));
+    });
+
+    it('should fetch days that have not closed again', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (requested: DateRange) => barsFor(requested));
+
+      await cache.getRange('AAPL', range('2024-06-03', '2024-06-10'), point => point.timestamp, fetchRange, { now });
+      await cache.getRange('AAPL', range('2024-06-03', '2024-06-10'), point => point.timestamp, fetchRange, { now });
+
+      expect(fetchRange).toHaveBeenCalledTimes(2);
+      expect(fetchRange.mock.calls[1][0].start).toEqual(new Date('2024-06-10T00:00:00Z'));
+    });
+
+    it('should fetch the part before a capped answer again', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (requested: DateRange) => barsFor(requested));
+      // Only the last three days of the first request come back, like a compact answer
+      fetchRange.mockImplementationOnce(async (requested: DateRange) => barsFor(requested).slice(-3));
+
+      await cache.getRange('AAPL', range('2024-01-01', '2024-01-10'), point => point.timestamp, fetchRange, { now });
+      const result = await cache.getRange('AAPL', range('2024-01-01', '2024-01-10'), point => point.timestamp, fetchRange, { now });
+
+      expect(fetchRange).toHaveBeenCalledTimes(2);
+      expect(fetchRange.mock.calls[1][0]).toEqual({
+        start: new Date('2024-01-01T00:00:00Z'),
+        end: new Date('2024-01-07T23:59:59.999Z')
+      });
+      expect(result).toHaveLength(10);
+    });
+
+    it('should take a range answered with nothing as covered', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (_requested: DateRange): Promise<TimeSeriesPoint[]> => []);
+
+      await cache.getRange('AAPL', range('2024-01-06', '2024-01-07'), point => point.timestamp, fetchRange, { now });
+      await cache.getRange('AAPL', range('2024-01-06', '2024-01-07'), point => point.timestamp, fetchRange, { now });
+
+      expect(fetchRange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not take a range answered only with items outside it as covered', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      // Ignores the range and answers with bars of another month
+      const fetchRange = jest.fn(async (_requested: DateRange) => barsFor(range('2023-12-01', '2023-12-05')));
+
+      const first = await cache.getRange('AAPL', range('2024-01-01', '2024-01-05'), point => point.timestamp, fetchRange, { now });
+      await cache.getRange('AAPL', range('2024-01-01', '2024-01-05'), point => point.timestamp, fetchRange, { now });
+
+      expect(first).toEqual([]);
+      expect(fetchRange).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch the whole range again when refreshing', async () => {
+      const cache = new HistoricalCache(new MemoryLRUCache());
+      const fetchRange = jest.fn(async (requested: DateRange) => barsFor(requested));
+      const requested = range('2024-01-01', '2024-01-10');
+
+      await cache.getRange('AAPL', requested, point => point.timestamp, fetchRange, { now });
+      await cache.getRange('AAPL', requested, point => point.timestamp, fetchRange, { now, refresh: true });
+
+      expect(fetchRange).toHaveBeenCalledTimes(2);
+      expect(fetchRange.mock.calls[1][0].start).toEqual(requested.start);
+    });
+  });
+
+  describe('StocksAPI integration', () => {
+    const createApi = () => new StocksAPI({
+      providers: { finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig },
+      cache: { persistent: new FileCacheStore(directory) }
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should reuse stored daily bars across instances', async () => {
+      const getTimeSeries = jest.spyOn(FinnhubClient.prototype, 'getTimeSeries')
+        .mockImplementation(async (_symbol, _interval, _period, startDate, endDate) =>
+          barsFor({ start: startDate!, end: endDate! })
+        );
+
+      await createApi().getTimeSeries('AAPL', 'daily', {
+        startDate: new Date('2023-01-01T00:00:00Z'),
+        endDate: new Date('2023-12-31T00:00:00Z')
+      });
+      const bars = await createApi().getTimeSeries('AAPL', 'daily', {
+        startDate: new Date('2023-06-01T00:00:00Z'),
+        endDate: new Date('2024-01-31T00:00:00Z')
+      });
+
+      expect(getTimeSeries).toHaveBeenCalledTimes(2);
+      expect(getTimeSeries.mock.calls[1][3]).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(getTimeSeries.mock.calls[1][5]).toBe('full');
+      expect(bars[0].timestamp).toEqual(new Date('2023-06-01T00:00:00Z'));
+      expect(bars[bars.length - 1].timestamp).toEqual(new Date('2024-01-31T00:00:00Z'));
+    });
+
+    it('should return dividends newest first', async () => {
+      const dividend = (exDate: string): Dividend => ({
+        symbol: 'AAPL',
+        amount: 0.24,
+        exDate: new Date(exDate),
+        paymentDate: new Date(exDate),
+        recordDate: new Date(exDate)
+      });
+      jest.spyOn(FinnhubClient.prototype, 'getDividends').mockResolvedValue([
+        dividend('2023-02-10T00:00:00Z'),
+        dividend('2023-05-12T00:00:00Z')
+      ]);
+
+      const dividends = await createApi().getDividends(
+        'AAPL',
+        new Date('2023-01-01T00:00:00Z'),
+        new Date('2023-12-31T00:00:00Z')
+      );
+
+      expect(dividends.map(d => d.exDate.toISOString().slice(0, 10))).toEqual(['2023-05-12', '2023-02-10']);
+    });
+  });
+});
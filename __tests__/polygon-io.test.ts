@@ -1,5 +1,6 @@
 import { PolygonIoClient } from '../src/providers/polygon-io';
 import { TimeInterval } from '../src/types';
+import { NotSupportedError } from '../src/errors';
 
 describe('PolygonIoClient', () => {
   let client: PolygonIoClient;
@@ -342,4 +343,13 @@ describe('PolygonIoClient', () => {
       expect(profile.marketCap).toBe(2500000000000);
     });
   });
+
+  describe('unsupported methods', () => {
+    it('should throw NotSupportedError instead of a generic error', async () => {
+      await expect(client.getFinancialMetrics('AAPL')).rejects.toBeInstanceOf(NotSupportedError);
+      await expect(client.getDividends('AAPL')).rejects.toBeInstanceOf(NotSupportedError);
+      await expect(client.searchSymbols('apple')).rejects.toBeInstanceOf(NotSupportedError);
+      await expect(client.getMarketNews()).rejects.toMatchObject({ provider: 'Polygon.io', method: 'getMarketNews' });
+    });
+  });
 });
@@ -1,35 +1,35 @@
 import { QuoddClient } from '../src/providers/quodd';
-import axios from 'axios';
-
-// Mock axios
-jest.mock('axios');
-const mockedAxios = axios as jest.Mocked<typeof axios>;
+import { HttpRequest, HttpTransport } from '../src/clients/http-transport';
 
 describe('QuoddClient', () => {
   let client: QuoddClient;
+  let get: jest.Mock;
   const mockApiKey = 'test-api-key';
   
   beforeEach(() => {
     jest.clearAllMocks();
     
-    // Mock axios.create to return a mock instance
-    const mockAxiosInstance = {
-      get: jest.fn(),
-      post: jest.fn(),
-      put: jest.fn(),
-      delete: jest.fn(),
-      patch: jest.fn(),
-      defaults: {
-        baseURL: 'https://api.quodd.com/v1',
-        headers: {}
+    // Requests are answered by `get(path, { params })`, resolving to { data } like an axios
+    // instance would, or rejecting with { response: { status, data } } for an error response
+    get = jest.fn();
+    const transport: HttpTransport = {
+      request: async <T>(request: HttpRequest) => {
+        const url = new URL(request.url);
+        const path = url.pathname.replace(/^\/v1/, '');
+        try {
+          const response = await get(path, { params: Object.fromEntries(url.searchParams) });
+          return { ok: true, status: 200, statusText: 'OK', headers: {}, data: response.data as T };
+        } catch (error: any) {
+          if (!error?.response) {
+            throw error;
+          }
+          const status = error.response.status ?? 401;
+          return { ok: false, status, statusText: 'Error', headers: {}, data: error.response.data as T };
+        }
       }
     };
     
-    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
-    client = new QuoddClient(mockApiKey);
-    
-    // Set the mock for get requests
-    client['httpClient'].get = mockAxiosInstance.get;
+    client = new QuoddClient(mockApiKey, 30000, { transport });
   });
 
   describe('getQuote', () => {
@@ -60,7 +60,7 @@ describe('QuoddClient', () => {
       ];
 
       // Mock the quote request
-      (client['httpClient'].get as jest.Mock)
+      get
         .mockResolvedValueOnce({ data: mockQuoteData })
         .mockResolvedValueOnce({ data: { data: mockHistoricalData } });
 
@@ -79,14 +79,14 @@ describe('QuoddClient', () => {
         previousClose: 147.75
       });
 
-      expect(client['httpClient'].get).toHaveBeenCalledWith('/quotes/equities', {
+      expect(get).toHaveBeenCalledWith('/quotes/equities', {
         params: { symbol: 'AAPL' }
       });
     });
 
     it('should handle API errors gracefully', async () => {
       const errorMessage = 'Invalid API key';
-      (client['httpClient'].get as jest.Mock).mockRejectedValueOnce({
+      get.mockRejectedValueOnce({
         response: {
           data: { error: errorMessage }
         }
@@ -129,7 +129,7 @@ describe('QuoddClient', () => {
         }
       ];
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockBatchData
       });
 
@@ -181,7 +181,7 @@ describe('QuoddClient', () => {
         eps: 4.92
       };
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockProfileData
       });
 
@@ -227,7 +227,7 @@ describe('QuoddClient', () => {
         ]
       };
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockTimeSeriesData
       });
 
@@ -292,7 +292,7 @@ describe('QuoddClient', () => {
         fiscal_year_end: '2024-09-30'
       };
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockMetricsData
       });
 
@@ -336,7 +336,7 @@ describe('QuoddClient', () => {
         ]
       };
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockSearchResults
       });
 
@@ -378,7 +378,7 @@ describe('QuoddClient', () => {
         ]
       };
 
-      (client['httpClient'].get as jest.Mock).mockResolvedValueOnce({
+      get.mockResolvedValueOnce({
         data: mockNewsData
       });
 
@@ -0,0 +1,83 @@
+import { RateLimiter } from '../src/clients/rate-limiter';
+import { getProviderRateLimits, DEFAULT_CONFIG } from '../src/config';
+import { RateLimitError } from '../src/errors';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let requests through immediately while tokens are available', async () => {
+    const limiter = new RateLimiter({ minute: 3 });
+
+    await expect(limiter.acquire()).resolves.toBe(0);
+    await expect(limiter.acquire()).resolves.toBe(0);
+    await expect(limiter.acquire()).resolves.toBe(0);
+  });
+
+  it('should queue requests once the window is exhausted', async () => {
+    const limiter = new RateLimiter({ minute: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let waited: number | undefined;
+    limiter.acquire().then(ms => { waited = ms; });
+
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(waited).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(waited).toBe(30000);
+  });
+
+  it('should serve queued requests in order', async () => {
+    const limiter = new RateLimiter({ second: 1 });
+    const order: number[] = [];
+
+    const pending = [1, 2, 3].map(n => limiter.acquire().then(() => order.push(n)));
+    await jest.advanceTimersByTimeAsync(2000);
+    await Promise.all(pending);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should respect the strictest of several windows', async () => {
+    const limiter = new RateLimiter({ second: 10, day: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const pending = limiter.acquire();
+    let settled = false;
+    pending.then(() => { settled = true; });
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(settled).toBe(false);
+  });
+
+  it('should fail with a RateLimitError when the wait exceeds maxWaitMs', async () => {
+    const limiter = new RateLimiter({ month: 1 }, { maxWaitMs: 60000 });
+    await limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+    // The queue keeps working for later callers
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe('getProviderRateLimits', () => {
+  it('should map the configured limit onto its window', () => {
+    expect(getProviderRateLimits(DEFAULT_CONFIG.providers.alphaVantage!)).toEqual({ minute: 5 });
+    expect(getProviderRateLimits(DEFAULT_CONFIG.providers.marketStack!)).toEqual({ month: 100 });
+  });
+
+  it('should merge additional windows', () => {
+    expect(getProviderRateLimits({
+      ...DEFAULT_CONFIG.providers.alphaVantage!,
+      rateLimits: { day: 25 }
+    })).toEqual({ minute: 5, day: 25 });
+  });
+});
@@ -0,0 +1,225 @@
+import { ProviderRegistry } from '../src/providers/registry';
+import { DEFAULT_CONFIG, StocksApiConfig } from '../src/config';
+import { StockApiClient, StockQuote } from '../src/types';
+import { AllProvidersFailedError, ApiRequestError, ProviderTimeoutError, RateLimitError, SymbolNotFoundError } from '../src/errors';
+
+const quote = (symbol: string, price: number): StockQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  timestamp: new Date('2024-01-15T16:00:00Z'),
+  volume: 1000
+});
+
+const mockClient = (overrides: Partial<Record<keyof StockApiClient, jest.Mock>> = {}): StockApiClient =>
+  ({ getQuote: jest.fn(), ...overrides } as unknown as StockApiClient);
+
+describe('ProviderRegistry', () => {
+  let config: StocksApiConfig;
+
+  beforeEach(() => {
+    config = { ...DEFAULT_CONFIG, circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 } };
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('withFallback', () => {
+    it('should fall back to the next provider when the first fails', async () => {
+      const registry = new ProviderRegistry(config);
+      const failing = mockClient({ getQuote: jest.fn().mockRejectedValue(new Error('down')) });
+      const healthy = mockClient({ getQuote: jest.fn().mockResolvedValue(quote('AAPL', 150)) });
+      registry.registerProvider('alphaVantage', failing, 1);
+      registry.registerProvider('finnhub', healthy, 2);
+
+      const result = await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+
+      expect(result.price).toBe(150);
+    });
+
+    it('should throw AllProvidersFailedError with every attempt', async () => {
+      const registry = new ProviderRegistry(config);
+      const rateLimited = new RateLimitError('rate limited', { status: 429 });
+      registry.registerProvider('alphaVantage', mockClient({ getQuote: jest.fn().mockRejectedValue(rateLimited) }), 1);
+      registry.registerProvider('finnhub', mockClient({ getQuote: jest.fn().mockResolvedValue({}) }), 2);
+
+      const error = await registry.withFallback('realtime', p => p.getQuote('AAPL')).catch(e => e);
+
+      expect(error).toBeInstanceOf(AllProvidersFailedError);
+      expect(error.attempts).toEqual([
+        {
+          provider: 'alphaVantage',
+          error: rateLimited,
+          durationMs: expect.any(Number),
+          errorType: 'RateLimitError',
+          status: 429,
+          empty: false
+        },
+        { provider: 'finnhub', durationMs: expect.any(Number), empty: true }
+      ]);
+    });
+
+    it('should return an empty result when allowed and a provider answered', async () => {
+      const registry = new ProviderRegistry(config);
+      registry.registerProvider('alphaVantage', mockClient({ getDividends: jest.fn().mockRejectedValue(new Error('down')) }), 1);
+      registry.registerProvider('finnhub', mockClient({ getDividends: jest.fn().mockResolvedValue([]) }), 2);
+
+      await expect(registry.withFallback('fundamentals', p => p.getDividends('AAPL'), { allowEmpty: true }))
+        .resolves.toEqual([]);
+    });
+
+    it('should still fail when allowed empty results but every provider failed', async () => {
+      const registry = new ProviderRegistry(config);
+      registry.registerProvider('alphaVantage', mockClient({ getDividends: jest.fn().mockRejectedValue(new Error('down')) }), 1);
+
+      await expect(registry.withFallback('fundamentals', p => p.getDividends('AAPL'), { allowEmpty: true }))
+        .rejects.toBeInstanceOf(AllProvidersFailedError);
+    });
+
+    it('should skip a provider once its circuit is open', async () => {
+      const registry = new ProviderRegistry(config);
+      const failing = mockClient({ getQuote: jest.fn().mockRejectedValue(new ApiRequestError('down', { status: 503 })) });
+      const healthy = mockClient({ getQuote: jest.fn().mockResolvedValue(quote('AAPL', 150)) });
+      registry.registerProvider('alphaVantage', failing, 1);
+      registry.registerProvider('finnhub', healthy, 2);
+
+      for (let i = 0; i < 4; i++) {
+        await registry.withFallback('realtime', provider => provider.getQuote('AAPL'));
+      }
+
+      expect(failing.getQuote).toHaveBeenCalledTimes(2);
+      expect(healthy.getQuote).toHaveBeenCalledTimes(4);
+    });
+
+    it('should keep the circuit closed when the request is at fault', async () => {
+      const registry = new ProviderRegistry(config);
+      const client = mockClient({
+        getQuote: jest.fn().mockRejectedValue(new SymbolNotFoundError('unknown symbol', { status: 404, symbol: 'XXXX' }))
+      });
+      registry.registerProvider('alphaVantage', client, 1);
+
+      for (let i = 0; i < 5; i++) {
+        await registry.withFallback('realtime', p => p.getQuote('XXXX')).catch(() => undefined);
+      }
+
+      expect(client.getQuote).toHaveBeenCalledTimes(5);
+      expect(registry.getProviderHealth().alphaVantage?.circuits.realtime).toBe('closed');
+    });
+
+    it('should not count the local rate limiter toward the circuit', async () => {
+      const registry = new ProviderRegistry(config);
+      const client = mockClient({
+        getQuote: jest.fn().mockRejectedValue(new RateLimitError('Rate limit reached', { retryAfterMs: 1000 }))
+      });
+      registry.registerProvider('alphaVantage', client, 1);
+
+      for (let i = 0; i < 3; i++) {
+        await registry.withFallback('realtime', p => p.getQuote('AAPL')).catch(() => undefined);
+      }
+
+      expect(registry.getProviderHealth().alphaVantage?.circuits.realtime).toBe('closed');
+    });
+
+    it('should keep circuits separate per feature', async () => {
+      const registry = new ProviderRegistry(config);
+      const client = mockClient({
+        getQuote: jest.fn().mockRejectedValue(new Error('down')),
+        getCompanyProfile: jest.fn().mockResolvedValue({ symbol: 'AAPL', name: 'Apple Inc.' })
+      });
+      registry.registerProvider('alphaVantage', client, 1);
+
+      await expect(registry.withFallback('realtime', p => p.getQuote('AAPL'))).rejects.toThrow();
+      await expect(registry.withFallback('realtime', p => p.getQuote('AAPL'))).rejects.toThrow();
+
+      await expect(registry.withFallback('fundamentals', p => p.getCompanyProfile('AAPL')))
+        .resolves.toMatchObject({ name: 'Apple Inc.' });
+    });
+  });
+
+  describe('getProviderHealth', () => {
+    it('should report success rate, latency and breaker state', async () => {
+      const registry = new ProviderRegistry(config);
+      const client = mockClient({
+        getQuote: jest.fn()
+          .mockResolvedValueOnce(quote('AAPL', 150))
+          .mockRejectedValueOnce(new ProviderTimeoutError(1000))
+          .mockRejectedValueOnce(new ProviderTimeoutError(1000))
+      });
+      registry.registerProvider('finnhub', client, 1);
+
+      await registry.withFallback('realtime', p => p.getQuote('AAPL'));
+      await registry.withFallback('realtime', p => p.getQuote('AAPL')).catch(() => undefined);
+      await registry.withFallback('realtime', p => p.getQuote('AAPL')).catch(() => undefined);
+
+      const health = registry.getProviderHealth().finnhub!;
+      expect(health.requests).toBe(3);
+      expect(health.successes).toBe(1);
+      expect(health.successRate).toBeCloseTo(1 / 3);
+      expect(health.latency.p50).toBeGreaterThanOrEqual(0);
+      expect(health.lastError).toBe('Request timed out after 1000ms');
+      expect(health.circuits.realtime).toBe('open');
+    });
+
+    it('should report untouched providers as healthy', () => {
+      const registry = new ProviderRegistry(config);
+      registry.registerProvider('finnhub', mockClient(), 1);
+
+      expect(registry.getProviderHealth().finnhub).toMatchObject({
+        requests: 0,
+        successRate: 1,
+        circuits: {}
+      });
+    });
+  });
+
+  describe('provider selection', () => {
+    it('should derive supported features from the provider config', () => {
+      const registry = new ProviderRegistry(config);
+      const alphaVantage = mockClient();
+      const finnhub = mockClient();
+      registry.registerProvider('alphaVantage', alphaVantage, 1, DEFAULT_CONFIG.providers.alphaVantage);
+      registry.registerProvider('finnhub', finnhub, 3, DEFAULT_CONFIG.providers.finnhub);
+
+      // Alpha Vantage is configured without news support
+      expect(registry.getProvidersForFeature('news')).toEqual([finnhub]);
+      expect(registry.getProvidersForFeature('getMarketNews')).toEqual([finnhub]);
+      expect(registry.getProvidersForFeature('realtime')).toEqual([alphaVantage, finnhub]);
+    });
+
+    it('should order providers by priority', () => {
+      const registry = new ProviderRegistry(config);
+      const low = mockClient();
+      const high = mockClient();
+      registry.registerProvider('finnhub', low, 5, DEFAULT_CONFIG.providers.finnhub);
+      registry.registerProvider('twelveData', high, 1, DEFAULT_CONFIG.providers.twelveData);
+
+      expect(registry.getProviderNamesForFeature('realtime')).toEqual(['twelveData', 'finnhub']);
+      expect(registry.getBestProviderForFeature('realtime')).toBe(high);
+    });
+
+    it('should follow a per-feature routing override', () => {
+      const registry = new ProviderRegistry({
+        ...config,
+        routing: { news: ['tiingo', 'finnhub'], historical: ['eodhd'] }
+      });
+      registry.registerProvider('finnhub', mockClient(), 1, DEFAULT_CONFIG.providers.finnhub);
+      registry.registerProvider('tiingo', mockClient(), 2, DEFAULT_CONFIG.providers.tiingo);
+      registry.registerProvider('eodhd', mockClient(), 3, DEFAULT_CONFIG.providers.eodhd);
+
+      expect(registry.getProviderNamesForFeature('news')).toEqual(['tiingo', 'finnhub']);
+      expect(registry.getProviderNamesForFeature('historical')).toEqual(['eodhd']);
+      // Features without a route keep the priority order
+      expect(registry.getProviderNamesForFeature('realtime')).toEqual(['finnhub', 'tiingo', 'eodhd']);
+    });
+
+    it('should ignore routed providers that are not registered', () => {
+      const registry = new ProviderRegistry({ ...config, routing: { news: ['benzinga', 'finnhub'] } });
+      registry.registerProvider('finnhub', mockClient(), 1, DEFAULT_CONFIG.providers.finnhub);
+
+      expect(registry.getProviderNamesForFeature('news')).toEqual(['finnhub']);
+    });
+  });
+});
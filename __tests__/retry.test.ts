@@ -0,0 +1,159 @@
+import {
+  withRetry,
+  isRetryableError,
+  parseRetryAfter,
+  computeRetryDelay,
+  resolveRetryPolicy,
+  RetryPolicy
+} from '../src/clients/retry';
+import { ApiRequestError, ProviderTimeoutError } from '../src/errors';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+
+describe('retry policy', () => {
+  const fastPolicy: RetryPolicy = {
+    maxRetries: 3,
+    retryDelay: 1,
+    maxRetryDelay: 50,
+    jitter: false
+  };
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits, server errors and timeouts', () => {
+      expect(isRetryableError(new ApiRequestError('rate limited', { status: 429 }))).toBe(true);
+      expect(isRetryableError(new ApiRequestError('unavailable', { status: 503 }))).toBe(true);
+      expect(isRetryableError(new ProviderTimeoutError(1000))).toBe(true);
+    });
+
+    it('should not retry client errors or unknown failures', () => {
+      expect(isRetryableError(new ApiRequestError('not found', { status: 404 }))).toBe(false);
+      expect(isRetryableError(new ApiRequestError('unauthorized', { status: 401 }))).toBe(false);
+      expect(isRetryableError(new Error('Invalid response format'))).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const delay = parseRetryAfter(date)!;
+      expect(delay).toBeGreaterThan(3000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should back off exponentially up to the maximum delay', () => {
+      const policy = { ...fastPolicy, retryDelay: 100, maxRetryDelay: 500 };
+      expect(computeRetryDelay(0, policy)).toBe(100);
+      expect(computeRetryDelay(1, policy)).toBe(200);
+      expect(computeRetryDelay(2, policy)).toBe(400);
+      expect(computeRetryDelay(3, policy)).toBe(500);
+    });
+
+    it('should keep jittered delays within half and full backoff', () => {
+      const policy = { ...fastPolicy, retryDelay: 100, jitter: true, maxRetryDelay: 1000 };
+      for (let i = 0; i < 20; i++) {
+        const delay = computeRetryDelay(1, policy);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(200);
+      }
+    });
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('should apply overrides in order and ignore undefined values', () => {
+      const policy = resolveRetryPolicy({ maxRetries: 5, retryDelay: 200 }, { maxRetries: 1, retryDelay: undefined });
+      expect(policy.maxRetries).toBe(1);
+      expect(policy.retryDelay).toBe(200);
+      expect(policy.jitter).toBe(true);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient failures until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new ApiRequestError('unavailable', { status: 503 }))
+        .mockRejectedValueOnce(new ProviderTimeoutError(10))
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(operation, fastPolicy)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const error = new ApiRequestError('unavailable', { status: 500 });
+      const operation = jest.fn().mockRejectedValue(error);
+
+      await expect(withRetry(operation, fastPolicy)).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const operation = jest.fn().mockRejectedValue(new ApiRequestError('not found', { status: 404 }));
+
+      await expect(withRetry(operation, fastPolicy)).rejects.toThrow('not found');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface the error when Retry-After exceeds the maximum delay', async () => {
+      const operation = jest.fn().mockRejectedValue(
+        new ApiRequestError('rate limited', { status: 429, retryAfterMs: 60000 })
+      );
+
+      await expect(withRetry(operation, fastPolicy)).rejects.toThrow('rate limited');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('client integration', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it('should retry provider requests that hit a 503', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new TwelveDataClient('test-api-key', 1000, { retry: fastPolicy });
+
+      global.fetch = jest.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers({ 'retry-after': '0' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ data: [] })
+        }) as jest.Mock;
+
+      await expect(client.searchSymbols('apple')).resolves.toEqual([]);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry when the client has no retry policy', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new TwelveDataClient('test-api-key');
+
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable'
+      }) as jest.Mock;
+
+      await expect(client.searchSymbols('apple')).rejects.toThrow('status 503');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
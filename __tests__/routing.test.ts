@@ -0,0 +1,125 @@
+import { orderProviders, getRoutingStrategy, RoutingCandidate } from '../src/providers/routing';
+import { ProviderRegistry } from '../src/providers/registry';
+import { DEFAULT_CONFIG, StocksApiConfig } from '../src/config';
+import { StockApiClient } from '../src/types';
+import { StocksAPI } from '../src/stocks-api';
+
+const candidates: RoutingCandidate[] = [
+  { name: 'alphaVantage', priority: 1, weight: 1, latencyMs: 900, remainingShare: 0.2 },
+  { name: 'finnhub', priority: 2, weight: 3, latencyMs: 120 },
+  { name: 'twelveData', priority: 3, weight: 0, remainingShare: 0.8 }
+];
+
+describe('routing strategies', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should order by priority by default', () => {
+    expect(orderProviders(candidates, 'priority')).toEqual(['alphaVantage', 'finnhub', 'twelveData']);
+  });
+
+  it('should put unmeasured providers first, then the fastest', () => {
+    expect(orderProviders(candidates, 'latency')).toEqual(['twelveData', 'finnhub', 'alphaVantage']);
+  });
+
+  it('should prefer providers with the most quota left', () => {
+    expect(orderProviders(candidates, 'quota')).toEqual(['finnhub', 'twelveData', 'alphaVantage']);
+  });
+
+  it('should shuffle in proportion to the weights', () => {
+    const first = { alphaVantage: 0, finnhub: 0, twelveData: 0 } as Record<string, number>;
+    for (let i = 0; i < 2000; i++) {
+      first[orderProviders(candidates, 'weighted-random')[0]]++;
+    }
+
+    expect(first.twelveData).toBe(0);
+    expect(first.finnhub / 2000).toBeGreaterThan(0.65);
+    expect(first.finnhub / 2000).toBeLessThan(0.85);
+  });
+
+  it('should use the draws of the given random source', () => {
+    const draws = [0.1, 0.9, 0.5];
+    const order = orderProviders(candidates, 'weighted-random', () => draws.shift() as number);
+
+    expect(order).toEqual(['finnhub', 'alphaVantage', 'twelveData']);
+  });
+
+  it('should resolve the strategy of a feature', () => {
+    expect(getRoutingStrategy(undefined, 'getQuote')).toBe('priority');
+    expect(getRoutingStrategy('quota', 'getQuote')).toBe('quota');
+    expect(getRoutingStrategy({ getQuote: 'latency', default: 'weighted-random' }, 'getQuote')).toBe('latency');
+    expect(getRoutingStrategy({ getQuote: 'latency', default: 'weighted-random' }, 'news')).toBe('weighted-random');
+  });
+
+  describe('in the registry', () => {
+    it('should route a feature to the provider that has answered fastest', async () => {
+      const config: StocksApiConfig = { ...DEFAULT_CONFIG, routingStrategy: { getQuote: 'latency' } };
+      const registry = new ProviderRegistry(config);
+      registry.registerProvider('alphaVantage', {} as StockApiClient, 1);
+      registry.registerProvider('finnhub', {} as StockApiClient, 2);
+
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(800);
+      await registry.callProvider('alphaVantage', 'getQuote', async () => 'slow');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(50);
+      await registry.callProvider('finnhub', 'getQuote', async () => 'fast');
+
+      expect(registry.getProviderNamesForFeature('getQuote')).toEqual(['finnhub', 'alphaVantage']);
+      expect(registry.getProviderNamesForFeature('getTimeSeries')).toEqual(['alphaVantage', 'finnhub']);
+    });
+
+    it('should leave an explicit routing list as it is', () => {
+      const config: StocksApiConfig = {
+        ...DEFAULT_CONFIG,
+        routing: { getQuote: ['finnhub', 'alphaVantage'] },
+        routingStrategy: 'weighted-random'
+      };
+      const registry = new ProviderRegistry(config);
+      registry.registerProvider('alphaVantage', {} as StockApiClient, 1);
+      registry.registerProvider('finnhub', {} as StockApiClient, 2);
+
+      expect(registry.getProviderNamesForFeature('getQuote')).toEqual(['finnhub', 'alphaVantage']);
+    });
+  });
+
+  describe('in StocksAPI', () => {
+    it('should route time series of every interval by the historical feature', async () => {
+      const api = new StocksAPI({ cache: { enabled: false }, providers: {}, routing: { realtime: ['quotes'], historical: ['bars'] } });
+      const quotes = { getTimeSeries: jest.fn().mockResolvedValue([{ close: 1 }]) };
+      const bars = { getTimeSeries: jest.fn().mockResolvedValue([{ close: 2 }]) };
+      api.registerProvider('quotes', quotes as unknown as StockApiClient);
+      api.registerProvider('bars', bars as unknown as StockApiClient);
+
+      await api.getTimeSeries('AAPL', '5min');
+      await api.getTimeSeries('AAPL', 'daily');
+
+      expect(bars.getTimeSeries).toHaveBeenCalledTimes(2);
+      expect(quotes.getTimeSeries).not.toHaveBeenCalled();
+    });
+
+    it('should route economic data by the economic feature', async () => {
+      const api = new StocksAPI({ cache: { enabled: false }, providers: {}, routing: { economic: ['second', 'first'] } });
+      const economicClient = (country: string) => ({
+        getEconomicEvents: jest.fn().mockResolvedValue([{ id: country, country }]),
+        getEconomicCalendar: jest.fn().mockResolvedValue([{ id: country, country }]),
+        getEconomicIndicator: jest.fn().mockResolvedValue([{ id: country, country }])
+      });
+      const first = economicClient('US');
+      const second = economicClient('EU');
+      api.registerProvider('first', first as unknown as StockApiClient, { priority: 1 });
+      api.registerProvider('second', second as unknown as StockApiClient, { priority: 2 });
+
+      await api.getEconomicEvents();
+      await api.getEconomicCalendar();
+      await api.getEconomicIndicator('gdp', 'US');
+
+      expect(second.getEconomicEvents).toHaveBeenCalled();
+      expect(second.getEconomicCalendar).toHaveBeenCalled();
+      expect(second.getEconomicIndicator).toHaveBeenCalled();
+      expect(first.getEconomicEvents).not.toHaveBeenCalled();
+      expect(first.getEconomicCalendar).not.toHaveBeenCalled();
+      expect(first.getEconomicIndicator).not.toHaveBeenCalled();
+    });
+  });
+});
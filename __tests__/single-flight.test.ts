@@ -0,0 +1,115 @@
+import { SingleFlight } from '../src/clients/single-flight';
+import { TwelveDataClient } from '../src/providers/twelve-data';
+import { FinnhubClient } from '../src/providers/finnhub';
+import { StocksAPI } from '../src/stocks-api';
+import { ApiProviderConfig } from '../src/config';
+import { StockQuote } from '../src/types';
+
+describe('single-flight', () => {
+  describe('SingleFlight', () => {
+    it('should share the pending promise between concurrent calls', async () => {
+      const flight = new SingleFlight();
+      const fn = jest.fn().mockResolvedValue('AAPL');
+
+      const results = await Promise.all([flight.run('quote', fn), flight.run('quote', fn)]);
+
+      expect(results).toEqual(['AAPL', 'AAPL']);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(flight.size).toBe(0);
+    });
+
+    it('should start a new call once the previous one settled', async () => {
+      const flight = new SingleFlight();
+      const fn = jest.fn()
+        .mockRejectedValueOnce(new Error('down'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(flight.run('quote', fn)).rejects.toThrow('down');
+      await expect(flight.run('quote', fn)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share calls with different keys', async () => {
+      const flight = new SingleFlight();
+      const fn = jest.fn().mockResolvedValue('ok');
+
+      await Promise.all([flight.run('AAPL', fn), flight.run('MSFT', fn)]);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('client requests', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it('should send concurrent identical requests once', async () => {
+      const client = new TwelveDataClient('test-api-key');
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [] })
+      }) as jest.Mock;
+
+      await Promise.all([client.searchSymbols('apple'), client.searchSymbols('apple'), client.searchSymbols('msft')]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject every caller with the same error context once', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new TwelveDataClient('test-api-key');
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error'
+      }) as jest.Mock;
+
+      const results = await Promise.allSettled([client.searchSymbols('apple'), client.searchSymbols('apple')]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      for (const result of results) {
+        expect(result.status).toBe('rejected');
+        const message = (result as PromiseRejectedResult).reason.message as string;
+        expect(message.match(/Failed to fetch data from Twelve Data/g)).toHaveLength(1);
+      }
+    });
+  });
+
+  describe('StocksAPI', () => {
+    const quote: StockQuote = {
+      symbol: 'AAPL',
+      companyName: 'Apple Inc.',
+      price: 150,
+      change: 1,
+      changePercent: 0.67,
+      timestamp: new Date('2024-01-15T16:00:00Z'),
+      volume: 1000
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should share one provider call between concurrent identical requests', async () => {
+      const api = new StocksAPI({
+        providers: { finnhub: { apiKey: 'test-api-key' } as ApiProviderConfig },
+        cache: { enabled: false }
+      });
+      const getQuote = jest.spyOn(FinnhubClient.prototype, 'getQuote').mockResolvedValue(quote);
+
+      const quotes = await Promise.all([api.getQuote('AAPL'), api.getQuote('aapl'), api.getQuote('MSFT')]);
+
+      expect(quotes[0]).toBe(quotes[1]);
+      expect(getQuote).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { UsageTracker } from '../src/clients/usage-tracker';
+import { HttpRequest, HttpTransport } from '../src/clients/http-transport';
+import { MemoryLRUCache } from '../src/cache/memory-cache';
+import { ProviderRegistry } from '../src/providers/registry';
+import { ApiProviderConfig, DEFAULT_CONFIG } from '../src/config';
+import { StockApiClient } from '../src/types';
+import { StocksAPI } from '../src/stocks-api';
+
+const AT = Date.UTC(2024, 4, 15, 12, 30, 10);
+
+describe('UsageTracker', () => {
+  it('should count requests per key against the quota of every key', () => {
+    const tracker = new UsageTracker();
+    tracker.register('marketStack', ['marketstack-key-1', 'marketstack-key-2'], { month: 100 });
+
+    tracker.record('marketStack', 'marketstack-key-1', AT);
+    tracker.record('marketStack', 'marketstack-key-1', AT);
+    tracker.record('marketStack', 'marketstack-key-2', AT);
+
+    const usage = tracker.getUsage('marketStack', AT);
+    expect(usage.requests).toBe(3);
+    expect(usage.windows.month).toEqual({
+      used: 3,
+      limit: 200,
+      remaining: 197,
+      resetsAt: new Date(Date.UTC(2024, 5, 1))
+    });
+    expect(usage.windows.minute).toEqual({ used: 3, resetsAt: new Date(Date.UTC(2024, 4, 15, 12, 31)) });
+    expect(usage.keys).toEqual([
+      expect.objectContaining({ key: '****ey-1', requests: 2, windows: expect.objectContaining({ month: expect.objectContaining({ used: 2, remaining: 98 }) }) }),
+      expect.objectContaining({ key: '****ey-2', requests: 1 })
+    ]);
+  });
+
+  it('should start counting over when a period ends', () => {
+    const tracker = new UsageTracker();
+    tracker.register('finnhub', ['finnhub-key-1'], { minute: 60, day: 1000 });
+
+    tracker.record('finnhub', 'finnhub-key-1', AT);
+    const nextMinute = AT + 60 * 1000;
+
+    expect(tracker.getUsage('finnhub', nextMinute).windows).toMatchObject({
+      minute: { used: 0, remaining: 60 },
+      day: { used: 1, remaining: 999 }
+    });
+  });
+
+  it('should report the smallest share left across the quota windows', () => {
+    const tracker = new UsageTracker({ reserve: 0.1 });
+    tracker.register('marketStack', ['marketstack-key-1'], { minute: 5, month: 10 });
+
+    for (let i = 0; i < 9; i++) {
+      tracker.record('marketStack', 'marketstack-key-1', AT + i * 60 * 1000);
+    }
+
+    expect(tracker.getRemainingShare('marketStack', AT + 9 * 60 * 1000)).toBeCloseTo(0.1);
+    expect(tracker.getRemainingShare('unknown')).toBeUndefined();
+  });
+
+  it('should keep counts in the store across instances without storing the keys', async () => {
+    const store = new MemoryLRUCache();
+    const first = new UsageTracker({ store });
+    first.register('twelveData', ['twelve-data-key'], { day: 800 });
+    first.record('twelveData', 'twelve-data-key');
+    first.record('twelveData', 'twelve-data-key');
+    await first.flush();
+
+    const second = new UsageTracker({ store });
+    second.register('twelveData', ['twelve-data-key'], { day: 800 });
+    second.record('twelveData', 'twelve-data-key');
+    await second.ready();
+
+    expect(second.getUsage('twelveData').windows.day).toMatchObject({ used: 3, remaining: 797 });
+    expect(JSON.stringify(await store.get('stocksapi:usage'))).not.toContain('twelve-data-key');
+  });
+
+  describe('provider order', () => {
+    it('should try providers close to exhausting a quota last', () => {
+      const tracker = new UsageTracker();
+      tracker.register('marketStack', ['marketstack-key-1'], { month: 100 });
+      tracker.register('finnhub', ['finnhub-key-1'], { minute: 60 });
+      const registry = new ProviderRegistry(DEFAULT_CONFIG, undefined, undefined, tracker);
+      registry.registerProvider('marketStack', {} as StockApiClient, 1);
+      registry.registerProvider('finnhub', {} as StockApiClient, 2);
+
+      expect(registry.getProviderNamesForFeature('getQuote')).toEqual(['marketStack', 'finnhub']);
+
+      for (let i = 0; i < 95; i++) {
+        tracker.record('marketStack', 'marketstack-key-1');
+      }
+
+      expect(registry.getProviderNamesForFeature('getQuote')).toEqual(['finnhub', 'marketStack']);
+    });
+  });
+
+  describe('with StocksAPI', () => {
+    it('should count every request sent to a provider', async () => {
+      const transport: HttpTransport = {
+        request: async <T>(_request: HttpRequest) => ({
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          data: { symbol: 'AAPL', name: 'Apple Inc.', close: '150', previous_close: '149', change: '1', percent_change: '0.67', volume: '1000' } as T
+        })
+      };
+      const api = new StocksAPI({
+        transport,
+        cache: { enabled: false },
+        providers: {
+          twelveData: { apiKey: 'twelve-data-key', rateLimit: 8, rateLimits: { day: 800 } } as ApiProviderConfig
+        }
+      });
+
+      await api.getQuote('AAPL', { includeCompanyName: false });
+      const usage = await api.getUsage();
+
+      expect(usage.twelveData?.requests).toBeGreaterThan(0);
+      expect(usage.twelveData?.windows.day).toMatchObject({
+        used: usage.twelveData?.requests,
+        limit: 800
+      });
+      expect(usage.twelveData?.keys[0].key).toBe('****-key');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { CapabilityMethod } from '../clients/capabilities';
+
+/**
+ * Methods whose results are cached. Batch methods reuse the entries of their single-symbol variant.
+ */
+export type CachedMethod = Exclude<CapabilityMethod, 'getQuotes' | 'getCompanyProfiles'>;
+
+/**
+ * Time to live per method in milliseconds. 0 disables caching for the method.
+ * For getTimeSeries this applies to ranges that include the current day;
+ * ranges ending before today are kept until evicted.
+ */
+export type CacheTtls = Record<CachedMethod, number>;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  getQuote: 15 * SECOND,
+  getCompanyProfile: DAY,
+  getTimeSeries: MINUTE,
+  getFinancialMetrics: DAY,
+  getDividends: DAY,
+  getEarnings: 6 * HOUR,
+  getUpcomingEarnings: HOUR,
+  searchSymbols: DAY,
+  getMarketNews: 5 * MINUTE,
+  getEconomicEvents: HOUR,
+  getEconomicCalendar: HOUR,
+  getEconomicIndicator: HOUR
+};
+
+/**
+ * Canonical form of a ticker symbol for cache keys
+ */
+export function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+/**
+ * Canonical form of a symbol list, so the same set in any order or case shares an entry
+ */
+export function normalizeSymbols(symbols: string[] = []): string[] {
+  return Array.from(new Set(symbols.map(normalizeSymbol))).sort();
+}
+
+/**
+ * Build a cache key from a method and its parameters. Object keys are sorted,
+ * undefined values dropped and dates reduced to ISO strings, so equivalent
+ * calls map to the same key.
+ */
+export function createCacheKey(method: string, params: unknown[]): string {
+  return `${method}:${JSON.stringify(params.map(canonicalize))}`;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item !== undefined) {
+        result[key] = canonicalize(item);
+      }
+    }
+    return result;
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * Time to live for a time series: bars of days that have closed never change,
+ * so a range ending before today is kept indefinitely
+ */
+export function getTimeSeriesTtl(openRangeTtl: number, endDate?: Date, now: Date = new Date()): number {
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (openRangeTtl > 0 && endDate && endDate.getTime() < startOfToday) {
+    return Infinity;
+  }
+  return openRangeTtl;
+}
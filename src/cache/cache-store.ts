@@ -0,0 +1,15 @@
+/**
+ * Storage backend for cached responses. Implementations may be remote or
+ * persistent, so every operation is asynchronous.
+ */
+export interface CacheStore {
+  /** Cached value for the key, or undefined when missing or expired */
+  get<T>(key: string): Promise<T | undefined>;
+  /**
+   * Store a value
+   * @param ttlMs Time to live in milliseconds; the entry never expires when omitted or Infinity
+   */
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { CacheStore } from './cache-store';
+
+interface FileEntry {
+  key: string;
+  value: unknown;
+  /** Epoch milliseconds, or null for entries that never expire */
+  expiresAt: number | null;
+}
+
+/**
+ * Cache store keeping one JSON file per entry in a directory, so cached data
+ * survives restarts. Dates are preserved through serialization.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.getPath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const entry = JSON.parse(contents, reviveDates) as FileEntry;
+    // Guard against hash collisions
+    if (entry.key !== key) {
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number = Infinity): Promise<void> {
+    const entry: FileEntry = {
+      key,
+      value,
+      expiresAt: Number.isFinite(ttlMs) ? Date.now() + ttlMs : null
+    };
+    const file = this.getPath(key);
+    // Write to a temporary file first so readers never see a partial entry;
+    // each write gets its own, so concurrent writes of one key cannot mix
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(entry, replaceDates), 'utf8');
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  private getPath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+// JSON.stringify calls Date#toJSON before the replacer sees the value,
+// so the original is read from the holder object. Invalid dates are kept as null.
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof Date) {
+    return { $date: Number.isNaN(original.getTime()) ? null : original.toISOString() };
+  }
+  return value;
+}
+
+function reviveDates(_key: string, value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && '$date' in value) {
+    const date = (value as { $date: string | null }).$date;
+    return new Date(date === null ? NaN : date);
+  }
+  return value;
+}
@@ -0,0 +1,156 @@
+import { CacheStore } from './cache-store';
+import { Logger, silentLogger } from '../logger';
+
+/**
+ * Inclusive date range
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Stored items of one series plus the day ranges known to be complete
+ */
+interface SeriesEntry<T> {
+  /** Covered ranges as inclusive [start, end] epoch milliseconds, sorted and non-overlapping */
+  ranges: [number, number][];
+  items: T[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Durable cache for dated series (daily bars, dividends, earnings).
+ * Each series is stored with the day ranges already fetched, so a request only
+ * fetches the parts of its range that are missing. Days that have not closed yet
+ * are never marked as covered and are fetched again on the next request.
+ * A range is covered from the oldest item a provider returned for it, or entirely when it
+ * answered with nothing: providers that cap their answers drop the oldest items, so the
+ * part before them is fetched again on the next request instead of being taken as empty.
+ * A range answered only with items outside it stays uncovered.
+ */
+export class HistoricalCache {
+  constructor(private readonly store: CacheStore, private readonly logger: Logger = silentLogger) {}
+
+  /**
+   * Items of a series within a range, fetching only what is not stored yet
+   * @param key Identifies the series, e.g. method, symbol and interval
+   * @param getDate Date an item belongs to; items with the same date replace each other
+   * @param fetchRange Load the items of a missing range from the providers
+   * @param options.refresh Fetch the whole range again instead of using stored items
+   * @param options.newestFirst Return items in descending date order
+   */
+  async getRange<T>(
+    key: string,
+    range: DateRange,
+    getDate: (item: T) => Date,
+    fetchRange: (range: DateRange) => Promise<T[]>,
+    options: { refresh?: boolean; newestFirst?: boolean; now?: Date } = {}
+  ): Promise<T[]> {
+    const start = startOfDay(range.start.getTime());
+    const end = startOfDay(range.end.getTime()) + DAY_MS - 1;
+    const lastClosed = startOfDay((options.now || new Date()).getTime()) - 1;
+
+    const entry = (await this.readEntry<T>(key)) || { ranges: [], items: [] };
+    const gaps = options.refresh ? [[start, end] as [number, number]] : findGaps(entry.ranges, start, end);
+
+    if (gaps.length > 0) {
+      const byDate = new Map<number, T>(entry.items.map(item => [getDate(item).getTime(), item]));
+      let ranges = entry.ranges;
+
+      for (const [gapStart, gapEnd] of gaps) {
+        const items = await fetchRange({ start: new Date(gapStart), end: new Date(gapEnd) });
+        let oldest: number | undefined;
+        for (const item of items) {
+          const time = getDate(item).getTime();
+          byDate.set(time, item);
+          if (time >= gapStart && time <= gapEnd && (oldest === undefined || time < oldest)) {
+            oldest = time;
+          }
+        }
+        // Items all outside the gap mean the provider answered another range, not that the gap is empty
+        if (items.length > 0 && oldest === undefined) {
+          continue;
+        }
+        const coveredFrom = oldest === undefined ? gapStart : startOfDay(oldest);
+        const coveredTo = Math.min(gapEnd, lastClosed);
+        if (coveredFrom <= coveredTo) {
+          ranges = addRange(ranges, [coveredFrom, coveredTo]);
+        }
+      }
+
+      entry.ranges = ranges;
+      entry.items = Array.from(byDate.values()).sort((a, b) => getDate(a).getTime() - getDate(b).getTime());
+      await this.writeEntry(key, entry);
+    }
+
+    const result = entry.items.filter(item => {
+      const time = getDate(item).getTime();
+      return time >= start && time <= end;
+    });
+    return options.newestFirst ? result.reverse() : result;
+  }
+
+  // Like the response cache, a failing store only costs the stored data, never the request
+  private async readEntry<T>(key: string): Promise<SeriesEntry<T> | undefined> {
+    try {
+      return await this.store.get<SeriesEntry<T>>(key);
+    } catch (error) {
+      this.logger.warn('Cache lookup failed', { key, error });
+      return undefined;
+    }
+  }
+
+  private async writeEntry<T>(key: string, entry: SeriesEntry<T>): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.logger.warn('Cache write failed', { key, error });
+    }
+  }
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Parts of [start, end] not covered by the sorted ranges
+ */
+function findGaps(ranges: [number, number][], start: number, end: number): [number, number][] {
+  const gaps: [number, number][] = [];
+  let cursor = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeEnd < cursor) {
+      continue;
+    }
+    if (rangeStart > end) {
+      break;
+    }
+    if (rangeStart > cursor) {
+      gaps.push([cursor, rangeStart - 1]);
+    }
+    cursor = rangeEnd + 1;
+  }
+  if (cursor <= end) {
+    gaps.push([cursor, end]);
+  }
+  return gaps;
+}
+
+/**
+ * Insert a range, merging it with overlapping or adjacent ones
+ */
+function addRange(ranges: [number, number][], range: [number, number]): [number, number][] {
+  const merged: [number, number][] = [];
+  for (const current of [...ranges, range].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && current[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], current[1]);
+    } else {
+      merged.push([current[0], current[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,6 @@
+export * from './cache-store';
+export * from './memory-cache';
+export * from './file-cache';
+export * from './historical-cache';
+export * from './cache-policy';
+export * from './response-cache';
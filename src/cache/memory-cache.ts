@@ -0,0 +1,55 @@
+import { CacheStore } from './cache-store';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache that evicts the least recently used entry once full.
+ * Values are copied in and out, so callers mutating a result cannot change the cached one.
+ */
+export class MemoryLRUCache implements CacheStore {
+  // Map iteration follows insertion order, so re-inserting on read keeps the
+  // most recently used entries at the end
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number = Infinity): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Number of entries currently held, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,223 @@
+import { CacheStore } from './cache-store';
+import { MemoryLRUCache } from './memory-cache';
+import { CachedMethod, CacheTtls, DEFAULT_CACHE_TTLS, createCacheKey } from './cache-policy';
+import { HistoricalCache, DateRange } from './historical-cache';
+import { SingleFlight } from '../clients/single-flight';
+import { runWithCallOptions, getCallSignal } from '../clients/call-options';
+import { RequestOptions } from '../types';
+import { StocksApiEmitter } from '../events';
+import { Logger, silentLogger } from '../logger';
+import { ResultMeta, attachMeta, getResultMeta, markCacheHit } from '../meta';
+
+/**
+ * Cache settings for StocksAPI
+ */
+export interface CacheConfig {
+  /** Whether responses are cached (default: true) */
+  enabled?: boolean;
+  /** Storage backend (default: an in-memory LRU cache) */
+  store?: CacheStore;
+  /** Entries kept by the default in-memory store (default: 1000) */
+  maxEntries?: number;
+  /** Time to live overrides per method, in milliseconds */
+  ttl?: Partial<CacheTtls>;
+  /**
+   * Durable store (e.g. a FileCacheStore) for closed historical data: daily bars,
+   * dividends and earnings requested with a start date. Later requests only fetch
+   * the part of their date range that is not stored yet.
+   */
+  persistent?: CacheStore;
+}
+
+/**
+ * Read-through cache for StocksAPI responses. Concurrent identical calls share
+ * one load even when caching is disabled, unless they can be cancelled.
+ */
+export class ResponseCache {
+  readonly enabled: boolean;
+  private readonly store: CacheStore;
+  private readonly ttls: CacheTtls;
+  private readonly historical?: HistoricalCache;
+  private readonly inflight = new SingleFlight();
+
+  constructor(
+    config: CacheConfig = {},
+    private readonly events: StocksApiEmitter = new StocksApiEmitter(),
+    private readonly logger: Logger = silentLogger
+  ) {
+    this.enabled = config.enabled !== false;
+    this.store = config.store || new MemoryLRUCache(config.maxEntries);
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...config.ttl };
+    if (config.persistent) {
+      this.historical = new HistoricalCache(config.persistent, logger);
+    }
+  }
+
+  /**
+   * Whether dated series are kept in a persistent store
+   */
+  get persistent(): boolean {
+    return this.enabled && this.historical !== undefined;
+  }
+
+  /**
+   * Configured time to live for a method
+   */
+  getTtl(method: CachedMethod): number {
+    return this.ttls[method];
+  }
+
+  /**
+   * Return the cached result of a call or load and cache it
+   * @param options.cache Set to false to skip the lookup; the loaded value still refreshes the entry
+   * @param options.signal Cancels the load; see CallOptions
+   * @param options.timeoutMs Deadline for the load; see CallOptions
+   * @param options.ttlMs Time to live for this entry (default: the method's TTL)
+   */
+  wrap<T>(
+    method: CachedMethod,
+    params: unknown[],
+    load: () => Promise<T>,
+    options: RequestOptions & { ttlMs?: number } = {}
+  ): Promise<T> {
+    return runWithCallOptions(options, () => this.readThrough(method, params, load, options));
+  }
+
+  private async readThrough<T>(
+    method: CachedMethod,
+    params: unknown[],
+    load: () => Promise<T>,
+    options: { cache?: boolean; ttlMs?: number }
+  ): Promise<T> {
+    const key = createCacheKey(method, params);
+    const ttlMs = options.ttlMs ?? this.ttls[method];
+    if (!this.enabled || ttlMs <= 0) {
+      return this.share(key, load);
+    }
+
+    // Calls opting out of the cache only join other calls that opted out,
+    // so they never receive a value read from the cache
+    return this.share(options.cache === false ? `${key}:fresh` : key, async () => {
+      if (options.cache !== false) {
+        const cached = await this.get<T>(method, key);
+        if (cached !== undefined) {
+          return markCacheHit(cached);
+        }
+      }
+
+      const value = await load();
+      await this.set(key, value, ttlMs);
+      return value;
+    });
+  }
+
+  /**
+   * Items of a dated series within a range, fetching only the parts missing from the
+   * persistent store. Without a persistent store the whole range is fetched.
+   * @param options.cache Set to false to fetch the whole range again; the result still refreshes the store
+   * @param options.signal Cancels fetching; see CallOptions
+   * @param options.timeoutMs Deadline for fetching; see CallOptions
+   * @param options.newestFirst Return items in descending date order
+   */
+  getRange<T>(
+    method: CachedMethod,
+    params: unknown[],
+    range: DateRange,
+    getDate: (item: T) => Date,
+    fetchRange: (range: DateRange) => Promise<T[]>,
+    options: RequestOptions & { newestFirst?: boolean } = {}
+  ): Promise<T[]> {
+    const key = createCacheKey(method, params);
+    const flightKey = `${createCacheKey(method, [...params, range.start, range.end])}${options.cache === false ? ':fresh' : ''}`;
+    const historical = this.enabled ? this.historical : undefined;
+    return runWithCallOptions(options, () => {
+      if (!historical) {
+        return this.share(flightKey, () => fetchRange(range));
+      }
+      return this.share(flightKey, () => historical.getRange(key, range, getDate, fetchRange, {
+        refresh: options.cache === false,
+        newestFirst: options.newestFirst
+      }));
+    });
+  }
+
+  /**
+   * Cached value for a method call, if any
+   */
+  async read<T>(method: CachedMethod, params: unknown[]): Promise<T | undefined> {
+    if (!this.enabled || this.ttls[method] <= 0) {
+      return undefined;
+    }
+    const cached = await this.get<T>(method, createCacheKey(method, params));
+    return cached !== undefined ? markCacheHit(cached) : undefined;
+  }
+
+  /**
+   * Store the result of a method call
+   */
+  async write<T>(method: CachedMethod, params: unknown[], value: T): Promise<void> {
+    if (!this.enabled || this.ttls[method] <= 0) {
+      return;
+    }
+    await this.set(createCacheKey(method, params), value, this.ttls[method]);
+  }
+
+  /**
+   * Drop every cached entry
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  // A cancellable call loads on its own, so aborting it cannot fail the calls it would have shared with
+  private share<T>(key: string, load: () => Promise<T>): Promise<T> {
+    return getCallSignal() ? load() : this.inflight.run(key, load);
+  }
+
+  // A failing backend (e.g. an unreachable remote store) must not fail the request,
+  // so lookups fall through to the provider and writes are dropped
+  private async get<T>(method: CachedMethod, key: string): Promise<T | undefined> {
+    try {
+      const value = await this.store.get<T | StoredResult<T>>(key);
+      if (value !== undefined) {
+        this.events.emit('cache:hit', { method, key });
+      }
+      return value === undefined ? undefined : fromStoredResult(value);
+    } catch (error) {
+      this.logger.warn('Cache lookup failed', { method, key, error });
+      return undefined;
+    }
+  }
+
+  private async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    if (value === null || value === undefined) {
+      return;
+    }
+    try {
+      await this.store.set(key, toStoredResult(value), ttlMs);
+    } catch (error) {
+      this.logger.warn('Cache write failed', { key, error });
+    }
+  }
+}
+
+/**
+ * A result stored with its provenance, which stores that serialize entries
+ * (e.g. a FileCacheStore) would drop along with the non-enumerable `meta` property
+ */
+interface StoredResult<T> {
+  $result: T;
+  $meta: ResultMeta;
+}
+
+function toStoredResult<T>(value: T): T | StoredResult<T> {
+  const meta = getResultMeta(value);
+  return meta ? { $result: value, $meta: meta } : value;
+}
+
+function fromStoredResult<T>(value: T | StoredResult<T>): T {
+  if (typeof value === 'object' && value !== null && '$meta' in value && '$result' in value) {
+    return attachMeta(value.$result, value.$meta);
+  }
+  return value as T;
+}
@@ -16,8 +16,22 @@ import {
   EconomicEventOptions,
   EconomicCalendarEntry,
   EconomicIndicator,
-  EconomicRegion
+  EconomicRegion,
+  CallOptions
 } from '../types';
+import { ApiRequestError, NetworkError, StocksApiError, createApiError, withErrorContext } from '../errors';
+import { RetryPolicy, resolveRetryPolicy, withRetry, parseRetryAfter } from './retry';
+import { RateLimiter } from './rate-limiter';
+import { ProviderCapabilities, CapabilityMethod } from './capabilities';
+import { SingleFlight } from './single-flight';
+import { getCallSignal, throwIfAborted, createAbortError, runWithCallOptions, delay } from './call-options';
+import { CAPABILITY_METHODS } from './capabilities';
+import { StocksApiEmitter, RequestEndEvent } from '../events';
+import { Logger, silentLogger, createScopedLogger } from '../logger';
+import { HttpTransport, HttpResponse, ProviderHttpConfig, ProviderAuth, FetchTransport } from './http-transport';
+import { KeyPool } from './key-pool';
+import { UsageTracker } from './usage-tracker';
+import { getCallTrace } from './call-trace';
 
 // Extend the interface to include our new methods
 interface StockApiClient extends IStockApiClient {
@@ -28,7 +42,8 @@ interface StockApiClient extends IStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
   
   getUpcomingEarnings(
@@ -37,30 +52,160 @@ interface StockApiClient extends IStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
 }
 
+/**
+ * Options shared by all stock API clients
+ */
+export interface BaseClientOptions {
+  /**
+   * Retry policy for failed requests. Clients constructed without it do not retry;
+   * StocksAPI passes the policy resolved from its configuration.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Limiter every request (including retries) must pass through.
+   * Share one instance between clients that draw on the same quota.
+   */
+  rateLimiter?: RateLimiter;
+  /** Emitter for request lifecycle events; share StocksAPI's to observe every client in one place */
+  events?: StocksApiEmitter;
+  /** Provider name reported in events and logs (default: the client class name) */
+  name?: string;
+  /** Logger for warnings and failures (default: silent). API keys are masked in every entry. */
+  logger?: Logger;
+  /** Sends the HTTP requests (default: a FetchTransport using the global fetch) */
+  transport?: HttpTransport;
+  /** Keys to rotate between (default: a pool holding just the apiKey the client was constructed with) */
+  keyPool?: KeyPool;
+  /** Counts every request against the provider's quota */
+  usage?: UsageTracker;
+  /** Base URL to send requests to instead of the provider's own, e.g. a caching proxy or a mirror */
+  baseUrl?: string;
+}
+
+/**
+ * What a provider learned about an HTTP exchange, reported in request:end events
+ */
+export interface RequestExchange {
+  status?: number;
+  bytes?: number;
+}
+
+// Position of the trailing CallOptions parameter of each StockApiClient method
+const CALL_OPTIONS_POSITION: Record<CapabilityMethod, number> = {
+  getQuote: 2,
+  getQuotes: 1,
+  getCompanyProfile: 1,
+  getCompanyProfiles: 1,
+  getTimeSeries: 6,
+  getFinancialMetrics: 4,
+  getDividends: 3,
+  getEarnings: 2,
+  getUpcomingEarnings: 1,
+  searchSymbols: 1,
+  getMarketNews: 2,
+  getEconomicEvents: 1,
+  getEconomicCalendar: 1,
+  getEconomicIndicator: 3
+};
+
 /**
  * Base class for all stock API clients
  * Implements the StockApiClient interface with common functionality
  */
 export abstract class BaseStockApiClient implements StockApiClient {
+  /**
+   * Methods, intervals and regions this provider can serve. The registry skips
+   * providers whose declaration does not cover a request instead of calling them.
+   */
+  static readonly capabilities?: ProviderCapabilities;
+  /** How the provider expects its API key, plus headers and query parameters for every request */
+  static readonly http?: ProviderHttpConfig;
+  /** Provider name used in error messages, e.g. "Failed to fetch data from Twelve Data" */
+  static readonly displayName?: string;
+
   protected readonly apiKey: string;
   protected readonly baseUrl: string;
   protected readonly requestTimeout: number;
+  protected readonly retryPolicy: RetryPolicy;
+  protected readonly rateLimiter?: RateLimiter;
+  /** Request lifecycle events (request:start, request:end, ratelimit:wait) */
+  readonly events: StocksApiEmitter;
+  protected readonly providerName: string;
+  /** Logger that tags entries with the provider and masks the API key */
+  protected readonly logger: Logger;
+  /** Sends every request of this client */
+  protected readonly transport: HttpTransport;
+  /** API keys requests rotate between, with their usage counters */
+  readonly keyPool: KeyPool;
+  protected readonly usage?: UsageTracker;
+  /** Provider headers sent with every request on top of the defaults, including the API key for header auth */
+  protected readonly headers: Record<string, string>;
+  private readonly inflight = new SingleFlight();
 
-  constructor(apiKey: string, baseUrl: string, requestTimeout: number = 10000) {
+  constructor(apiKey: string, baseUrl: string, requestTimeout: number = 10000, options: BaseClientOptions = {}) {
     if (!apiKey) {
       throw new Error('API key is required');
     }
     this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+    this.baseUrl = options.baseUrl || baseUrl;
     this.requestTimeout = requestTimeout;
+    this.retryPolicy = resolveRetryPolicy({ maxRetries: 0 }, options.retry);
+    this.rateLimiter = options.rateLimiter;
+    this.events = options.events || new StocksApiEmitter();
+    this.providerName = options.name || this.constructor.name;
+    this.keyPool = options.keyPool || new KeyPool([apiKey]);
+    this.usage = options.usage;
+    this.logger = createScopedLogger(options.logger || silentLogger, {
+      fields: { provider: this.providerName },
+      secrets: [apiKey, ...this.keyPool.keys]
+    });
+    this.transport = options.transport || new FetchTransport();
+    
+    const { auth, headers } = this.getHttpConfig();
+    this.headers = { ...headers };
+    if (auth.in === 'header') {
+      this.headers[auth.name] = `${auth.prefix || ''}${apiKey}`;
+    }
+    this.applyCallOptions();
+  }
+
+  /**
+   * Provider name used in error messages
+   */
+  protected get displayName(): string {
+    return (this.constructor as typeof BaseStockApiClient).displayName || this.providerName;
+  }
+
+  /**
+   * Apply the CallOptions passed to each client method around the whole call, so they
+   * cover the requests it makes internally too (e.g. history for a quote's volume metrics).
+   * Implementations declare the parameter for their callers but need not read it.
+   */
+  private applyCallOptions(): void {
+    for (const method of CAPABILITY_METHODS) {
+      const position = CALL_OPTIONS_POSITION[method];
+      Object.defineProperty(this, method, {
+        configurable: true,
+        writable: true,
+        value: (...args: unknown[]) => {
+          // Looked up on every call, so the implementation can still be replaced (e.g. spied on)
+          const implementation = Object.getPrototypeOf(this)[method] as (...args: unknown[]) => Promise<unknown>;
+          const callOptions = args[position] as CallOptions | undefined;
+          return callOptions
+            ? runWithCallOptions(callOptions, () => implementation.apply(this, args))
+            : implementation.apply(this, args);
+        }
+      });
+    }
   }
 
   // Updated method signatures to match implementations
-  abstract getQuote(symbol: string, includeHistorical?: boolean): Promise<StockQuote>;
+  abstract getQuote(symbol: string, includeHistorical?: boolean, callOptions?: CallOptions): Promise<StockQuote>;
   
   abstract getEarnings(
     symbol: string, 
@@ -69,7 +214,8 @@ export abstract class BaseStockApiClient implements StockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
   
   abstract getUpcomingEarnings(
@@ -78,10 +224,11 @@ export abstract class BaseStockApiClient implements StockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
   
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const result: BatchQuoteResult = {};
     
     // Process in parallel with a reasonable concurrency limit
@@ -104,24 +251,25 @@ export abstract class BaseStockApiClient implements StockApiClient {
       );
       
       const batchResults = await Promise.all(batchPromises);
+      throwIfAborted();
       
       // Add results to the final output
       batchResults.forEach(item => {
         result[item.symbol] = item;
       });
       
-      // Add a small delay between batches to respect rate limits
-      if (i + BATCH_SIZE < symbols.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      // Without a rate limiter, add a small delay between batches to respect rate limits
+      if (i + BATCH_SIZE < symbols.length && !this.rateLimiter) {
+        await delay(1000);
       }
     }
     
     return result;
   }
   
-  abstract getCompanyProfile(symbol: string): Promise<CompanyProfile>;
+  abstract getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile>;
   
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const result: BatchCompanyProfileResult = {};
     
     // Process in parallel with a reasonable concurrency limit
@@ -144,15 +292,16 @@ export abstract class BaseStockApiClient implements StockApiClient {
       );
       
       const batchResults = await Promise.all(batchPromises);
+      throwIfAborted();
       
       // Add results to the final output
       batchResults.forEach(item => {
         result[item.symbol] = item;
       });
       
-      // Add a small delay between batches to respect rate limits
-      if (i + BATCH_SIZE < symbols.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      // Without a rate limiter, add a small delay between batches to respect rate limits
+      if (i + BATCH_SIZE < symbols.length && !this.rateLimiter) {
+        await delay(1000);
       }
     }
     
@@ -166,29 +315,32 @@ export abstract class BaseStockApiClient implements StockApiClient {
     period?: number,
     startDate?: Date,
     endDate?: Date,
-    outputSize?: 'compact' | 'full'
+    outputSize?: 'compact' | 'full',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]>;
 
   abstract getFinancialMetrics(
     symbol: string,
     asOfDate?: Date,
     period?: 'annual' | 'quarterly' | 'ttm',
-    includeGrowthMetrics?: boolean
+    includeGrowthMetrics?: boolean,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics>;
 
-  abstract getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]>;
-  abstract searchSymbols(query: string): Promise<StockSymbol[]>;
-  abstract getMarketNews(symbols?: string[], limit?: number): Promise<NewsArticle[]>;
+  abstract getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]>;
+  abstract searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]>;
+  abstract getMarketNews(symbols?: string[], limit?: number, callOptions?: CallOptions): Promise<NewsArticle[]>;
   
   // Economic data methods
-  abstract getEconomicEvents(options?: EconomicEventOptions): Promise<EconomicEvent[]>;
+  abstract getEconomicEvents(options?: EconomicEventOptions, callOptions?: CallOptions): Promise<EconomicEvent[]>;
   abstract getEconomicCalendar(
     options?: {
       startDate?: Date;
       endDate?: Date;
       countries?: EconomicRegion[];
       importance?: ('low' | 'medium' | 'high')[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EconomicCalendarEntry[]>;
   abstract getEconomicIndicator(
     indicator: EconomicIndicator,
@@ -197,58 +349,209 @@ export abstract class BaseStockApiClient implements StockApiClient {
       startDate?: Date;
       endDate?: Date;
       limit?: number;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EconomicEvent[]>;
 
   /**
-   * Helper method to make HTTP requests
+   * Send a GET request to the provider through the transport, adding the API key where
+   * the provider's http config expects it. Endpoints are resolved against the base URL,
+   * keeping its path even when they start with a slash; absolute URLs are used as they are.
+   * @param params Query parameters; undefined values are left out
+   * @throws {StocksApiError} With the message prefixed by "Failed to fetch data from <provider>"
    */
-  protected async makeRequest<T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T> {
-    const url = new URL(endpoint, this.baseUrl);
-    
-    // Add API key and format=json to all requests
-    const searchParams = new URLSearchParams({
-      ...params,
-      apikey: this.apiKey,
-      datatype: 'json',
-    });
-    
-    url.search = searchParams.toString();
+  protected async makeRequest<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean | undefined> = {}
+  ): Promise<T> {
+    const { auth, params: defaultParams } = this.getHttpConfig();
+    const url = new URL(resolveUrl(this.baseUrl, endpoint));
+    for (const [name, value] of Object.entries({ ...defaultParams, ...params })) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+    // Identify the request without a key, so it stays out of shared request keys
+    const key = url.toString();
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+    try {
+      return await this.executeRequest({ endpoint, key }, async (exchange, signal) => {
+        // A key the provider refuses is set aside and the request sent again with the next one,
+        // trying each key at most once
+        for (let attempt = 1; ; attempt++) {
+          const apiKey = this.keyPool.next();
+          this.usage?.record(this.providerName, apiKey);
+          const response = await this.send<T>(url, auth, apiKey, signal);
+          
+          this.recordResponse(exchange, response);
+          if (response.ok) {
+            return response.data;
+          }
+          
+          const error = this.createResponseError(response);
+          if (response.status === 401 || response.status === 429) {
+            this.keyPool.reject(apiKey, error.retryAfterMs);
+            if (attempt < this.keyPool.keys.length && this.keyPool.hasAvailable()) {
+              continue;
+            }
+          }
+          throw error;
+        }
+      });
+    } catch (error) {
+      this.logger.error('API request failed', { endpoint, error });
+      throw withErrorContext(error, `Failed to fetch data from ${this.displayName}`, this.displayName);
+    }
+  }
+
+  /**
+   * Send one request with the given key through the transport
+   */
+  private async send<T>(url: URL, auth: ProviderAuth, apiKey: string, signal?: AbortSignal): Promise<HttpResponse<T>> {
+    const requestUrl = new URL(url);
+    const headers = { ...DEFAULT_HEADERS, ...this.headers };
+    if (auth.in === 'query') {
+      requestUrl.searchParams.set(auth.name, apiKey);
+    } else {
+      headers[auth.name] = `${auth.prefix || ''}${apiKey}`;
+    }
     
     try {
-      const response = await fetch(url.toString(), {
-        signal: controller.signal,
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'stocksapi-typescript/1.0.0',
-        },
+      return await this.transport.request<T>({
+        url: requestUrl.toString(),
+        headers,
+        timeoutMs: this.requestTimeout,
+        signal
       });
-      
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
+    } catch (error) {
+      if (error instanceof StocksApiError || !(error instanceof Error)) {
+        throw error;
+      }
+      throw new NetworkError(`API request failed: ${error.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * Request settings declared by the provider class
+   */
+  protected getHttpConfig(): ProviderHttpConfig {
+    return (this.constructor as typeof BaseStockApiClient).http || DEFAULT_HTTP_CONFIG;
+  }
+
+  /**
+   * Run a single HTTP exchange through the shared request policy.
+   * Every provider's makeRequest goes through here so rate limiting and retries
+   * behave the same everywhere.
+   * @param request.endpoint Endpoint reported in events; must not contain credentials
+   * @param request.key Identifies the request (default: the endpoint); concurrent requests
+   * with the same key share one exchange instead of each calling the provider
+   * @param send Performs the exchange, recording the status and size it sees on `exchange`.
+   * It receives the signal of the current call (see CallOptions) and must abort when it fires.
+   */
+  protected executeRequest<T>(
+    request: { endpoint: string; key?: string },
+    send: (exchange: RequestExchange, signal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const { endpoint } = request;
+    const provider = this.providerName;
+    const signal = getCallSignal();
+    
+    const run = () => withRetry(async () => {
+      throwIfAborted(signal);
+      const waitMs = await this.rateLimiter?.acquire(signal);
+      if (waitMs) {
+        this.events.emit('ratelimit:wait', { provider, waitMs });
       }
       
-      return await response.json() as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error(`Request timed out after ${this.requestTimeout}ms`);
-        }
-        throw new Error(`API request failed: ${error.message}`);
+      const exchange: RequestExchange = {};
+      const startedAt = Date.now();
+      this.events.emit('request:start', { provider, endpoint });
+      try {
+        const result = await send(exchange, signal);
+        this.endRequest({ provider, endpoint, ...exchange, latencyMs: Date.now() - startedAt });
+        return result;
+      } catch (caught) {
+        // A request cut short by the caller is not a provider failure, so it is neither retried nor timed out
+        const error = signal?.aborted ? createAbortError(signal) : caught;
+        this.endRequest({
+          provider,
+          endpoint,
+          ...exchange,
+          status: exchange.status ?? (error instanceof ApiRequestError ? error.status : undefined),
+          latencyMs: Date.now() - startedAt,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+        throw error;
       }
-      throw error;
-    } finally {
-      clearTimeout(timeoutId);
+    }, this.retryPolicy, signal);
+    
+    // A cancellable call does not share its request, so aborting it cannot fail other callers
+    return signal ? run() : this.inflight.run(request.key ?? endpoint, run);
+  }
+
+  // Reported to listeners and to the trace of the call the request belongs to
+  private endRequest(event: RequestEndEvent): void {
+    this.events.emit('request:end', event);
+    getCallTrace()?.requests.push(event);
+  }
+
+  /**
+   * Record the status and Content-Length of a response
+   */
+  protected recordResponse(exchange: RequestExchange, response: HttpResponse): void {
+    exchange.status = response.status;
+    const length = Number(response.headers['content-length']);
+    if (length > 0) {
+      exchange.bytes = length;
     }
   }
 
+  /**
+   * Build the error for a non-success response, including the provider's own message when it sent one
+   */
+  protected createResponseError(response: HttpResponse): ApiRequestError {
+    const detail = getErrorDetail(response.data);
+    return createApiError(
+      `API request failed with status ${response.status}: ${response.statusText}${detail ? ` (${detail})` : ''}`,
+      {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers['retry-after'])
+      }
+    );
+  }
+
   /**
    * Helper method to convert date strings to Date objects
    */
   protected parseDate(dateString: string | Date): Date {
     return typeof dateString === 'string' ? new Date(dateString) : dateString;
   }
-}
\ No newline at end of file
+}
+
+const DEFAULT_HTTP_CONFIG: ProviderHttpConfig = {
+  auth: { in: 'query', name: 'apikey' }
+};
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'Accept': 'application/json',
+  'User-Agent': 'stocksapi-typescript/1.0.0'
+};
+
+// Endpoints are relative to the whole base URL, so '/eod/AAPL' on 'https://eodhd.com/api'
+// becomes 'https://eodhd.com/api/eod/AAPL' rather than replacing the '/api' path
+function resolveUrl(baseUrl: string, endpoint: string): string {
+  if (/^https?:\/\//i.test(endpoint)) {
+    return endpoint;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+}
+
+// Providers report errors as { error } or { message } in the body
+function getErrorDetail(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const { error, message } = data as { error?: unknown; message?: unknown };
+  const detail = typeof error === 'string' ? error : message;
+  return typeof detail === 'string' && detail ? detail : undefined;
+}
@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CallOptions } from '../types';
+import { RequestAbortedError } from '../errors';
+
+// Signal of the call currently running, so requests made deep inside
+// providers and fallback chains see it without threading it through every method
+const callSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run a call with its signal and deadline applying to every request made inside it.
+ * Options of an enclosing call keep applying, so nesting can only shorten the deadline.
+ */
+export async function runWithCallOptions<T>(options: CallOptions, fn: () => Promise<T>): Promise<T> {
+  const signals = [getCallSignal(), options.signal].filter((signal): signal is AbortSignal => signal !== undefined);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  if (options.timeoutMs !== undefined) {
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs;
+    timeoutId = setTimeout(() => {
+      controller.abort(new RequestAbortedError(`Call timed out after ${timeoutMs}ms`, { timedOut: true }));
+    }, timeoutMs);
+    signals.push(controller.signal);
+  }
+
+  if (signals.length === 0) {
+    return fn();
+  }
+
+  const linked = signals.length > 1 ? linkSignals(signals) : undefined;
+  const signal = linked ? linked.signal : signals[0];
+  try {
+    throwIfAborted(signal);
+    return await callSignal.run(signal, fn);
+  } finally {
+    clearTimeout(timeoutId);
+    linked?.unlink();
+  }
+}
+
+/**
+ * Signal aborted as soon as any of the given ones is, with its reason. Stands in for
+ * AbortSignal.any, which needs Node 20.3; call `unlink` once done with it so long-lived
+ * signals do not keep a listener for every call they took part in.
+ */
+export function linkSignals(signals: AbortSignal[]): { signal: AbortSignal; unlink: () => void } {
+  const controller = new AbortController();
+  const listeners = signals.map(signal => ({
+    signal,
+    onAbort: () => {
+      controller.abort(signal.reason);
+      unlink();
+    }
+  }));
+  const unlink = () => {
+    for (const { signal, onAbort } of listeners) {
+      signal.removeEventListener('abort', onAbort);
+    }
+  };
+
+  for (const { signal, onAbort } of listeners) {
+    if (signal.aborted) {
+      onAbort();
+      break;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  return { signal: controller.signal, unlink };
+}
+
+/**
+ * Signal of the call currently running, if it can be cancelled
+ */
+export function getCallSignal(): AbortSignal | undefined {
+  return callSignal.getStore();
+}
+
+/**
+ * Error describing why a signal was aborted
+ */
+export function createAbortError(signal: AbortSignal): RequestAbortedError {
+  if (signal.reason instanceof RequestAbortedError) {
+    return signal.reason;
+  }
+  return new RequestAbortedError('Call was aborted', { cause: signal.reason });
+}
+
+/**
+ * @throws {RequestAbortedError} If the signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined = getCallSignal()): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Wait for a delay, rejecting early with a RequestAbortedError if the signal is aborted
+ */
+export function delay(ms: number, signal: AbortSignal | undefined = getCallSignal()): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError(signal as AbortSignal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
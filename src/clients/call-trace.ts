@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { RequestEndEvent } from '../events';
+import type { ProviderAttempt } from '../errors';
+
+/**
+ * What happened while serving one StocksAPI call: the providers asked, the HTTP
+ * requests sent and where the result came from
+ */
+export class CallTrace {
+  /** Every provider asked, in the order they settled */
+  readonly attempts: ProviderAttempt[] = [];
+  readonly requests: RequestEndEvent[] = [];
+  /** Provider whose answer was returned */
+  provider?: string;
+  /** Provider each field of a merged record came from */
+  sources?: Record<string, string>;
+
+  /**
+   * Note the provider whose answer is returned and, for merged records, where each field came from
+   */
+  serve(provider: string, sources?: Record<string, string>): void {
+    this.provider = provider;
+    this.sources = sources;
+  }
+}
+
+// Trace of the call currently running, so providers and clients deep inside it can report to it
+const callTrace = new AsyncLocalStorage<CallTrace>();
+
+/**
+ * Run a call, reporting what happens inside it to a trace. A nested call traced on its
+ * own reports to its own trace only.
+ */
+export function runWithTrace<T>(trace: CallTrace, fn: () => Promise<T>): Promise<T> {
+  return callTrace.run(trace, fn);
+}
+
+/**
+ * Trace of the call currently running, if it is traced
+ */
+export function getCallTrace(): CallTrace | undefined {
+  return callTrace.getStore();
+}
@@ -0,0 +1,119 @@
+import { StockApiClient, TimeInterval, EconomicRegion } from '../types';
+
+/**
+ * Client methods a provider can declare support for
+ */
+export type CapabilityMethod =
+  | 'getQuote'
+  | 'getQuotes'
+  | 'getCompanyProfile'
+  | 'getCompanyProfiles'
+  | 'getTimeSeries'
+  | 'getFinancialMetrics'
+  | 'getDividends'
+  | 'getEarnings'
+  | 'getUpcomingEarnings'
+  | 'searchSymbols'
+  | 'getMarketNews'
+  | 'getEconomicEvents'
+  | 'getEconomicCalendar'
+  | 'getEconomicIndicator';
+
+export const CAPABILITY_METHODS: CapabilityMethod[] = [
+  'getQuote',
+  'getQuotes',
+  'getCompanyProfile',
+  'getCompanyProfiles',
+  'getTimeSeries',
+  'getFinancialMetrics',
+  'getDividends',
+  'getEarnings',
+  'getUpcomingEarnings',
+  'searchSymbols',
+  'getMarketNews',
+  'getEconomicEvents',
+  'getEconomicCalendar',
+  'getEconomicIndicator'
+];
+
+/**
+ * Restrictions on a supported method
+ */
+export interface MethodCapability {
+  /** Intervals the method can serve (time series); any interval when omitted */
+  intervals?: TimeInterval[];
+  /** Regions the method covers (economic data); any region when omitted */
+  regions?: EconomicRegion[];
+}
+
+/**
+ * What a client can serve. `true` or a MethodCapability marks a method as supported;
+ * methods that are missing or `false` are not, and are never called by the registry.
+ */
+export type ProviderCapabilities = Partial<Record<CapabilityMethod, boolean | MethodCapability>>;
+
+/**
+ * Fully resolved support for one method, as reported by getCapabilities
+ */
+export interface CapabilityReport extends MethodCapability {
+  supported: boolean;
+}
+
+/**
+ * A request the registry needs a provider to be able to serve
+ */
+export interface CapabilityRequirement {
+  method: CapabilityMethod;
+  interval?: TimeInterval;
+  region?: EconomicRegion;
+}
+
+/**
+ * Capabilities a client declares through a static `capabilities` property.
+ * Clients without a declaration are assumed to support everything.
+ */
+export function getClientCapabilities(client: StockApiClient): ProviderCapabilities | undefined {
+  return (client.constructor as { capabilities?: ProviderCapabilities }).capabilities;
+}
+
+/**
+ * Whether declared capabilities cover a request
+ */
+export function supportsCapability(
+  capabilities: ProviderCapabilities | undefined,
+  requirement: CapabilityRequirement
+): boolean {
+  if (!capabilities) {
+    return true;
+  }
+  const capability = capabilities[requirement.method];
+  if (!capability) {
+    return false;
+  }
+  if (capability === true) {
+    return true;
+  }
+  if (requirement.interval && capability.intervals && !capability.intervals.includes(requirement.interval)) {
+    return false;
+  }
+  if (requirement.region && capability.regions && !capability.regions.includes(requirement.region)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Expand declared capabilities into a report covering every method
+ */
+export function describeCapabilities(
+  capabilities: ProviderCapabilities | undefined
+): Record<CapabilityMethod, CapabilityReport> {
+  const report = {} as Record<CapabilityMethod, CapabilityReport>;
+  for (const method of CAPABILITY_METHODS) {
+    const capability = capabilities ? capabilities[method] : true;
+    report[method] = typeof capability === 'object'
+      ? { supported: true, ...capability }
+      : { supported: capability === true };
+  }
+  return report;
+}
@@ -0,0 +1,148 @@
+import axios, { AxiosInstance } from 'axios';
+import { ProviderTimeoutError } from '../errors';
+import { linkSignals } from './call-options';
+
+/**
+ * A GET request to a provider
+ */
+export interface HttpRequest {
+  /** Absolute URL including the query string and, for query auth, the API key */
+  url: string;
+  headers: Record<string, string>;
+  /** Give up on the request after this many milliseconds */
+  timeoutMs: number;
+  /** Aborts the request when the call is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * A provider's answer, whatever its status
+ */
+export interface HttpResponse<T = unknown> {
+  /** Whether the status is in the 2xx range */
+  ok: boolean;
+  status: number;
+  statusText: string;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  /** Parsed JSON body; for error responses undefined when the body is not JSON */
+  data: T;
+}
+
+/**
+ * Sends the HTTP requests of every provider client. Implement it to route requests
+ * through a proxy or custom agent, or to stub providers in tests.
+ * Resolves for every HTTP status; rejects with a ProviderTimeoutError once timeoutMs
+ * has passed, and with the underlying error when the request could not be completed.
+ */
+export interface HttpTransport {
+  request<T>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * How a provider expects its API key
+ */
+export type ProviderAuth =
+  | { in: 'query'; name: string }
+  | { in: 'header'; name: string; prefix?: string };
+
+/**
+ * Request settings a provider client declares
+ */
+export interface ProviderHttpConfig {
+  auth: ProviderAuth;
+  /** Headers sent with every request on top of the defaults */
+  headers?: Record<string, string>;
+  /** Query parameters sent with every request */
+  params?: Record<string, string>;
+}
+
+/**
+ * Transport using the global fetch (the default)
+ */
+export class FetchTransport implements HttpTransport {
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeoutMs);
+    const linked = request.signal ? linkSignals([controller.signal, request.signal]) : undefined;
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'GET',
+        headers: request.headers,
+        signal: linked ? linked.signal : controller.signal
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers?.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      const data: unknown = response.ok ? await response.json() : await readErrorBody(response);
+
+      return {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: data as T
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ProviderTimeoutError(request.timeoutMs, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      linked?.unlink();
+    }
+  }
+}
+
+// Error bodies are only read for the provider's message, so they may be anything
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Transport using an axios instance, e.g. one configured with custom agents or interceptors
+ */
+export class AxiosTransport implements HttpTransport {
+  constructor(private readonly client: AxiosInstance = axios.create()) {}
+
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    try {
+      const response = await this.client.request<T>({
+        url: request.url,
+        method: 'GET',
+        headers: request.headers,
+        timeout: request.timeoutMs,
+        signal: request.signal,
+        validateStatus: () => true
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers || {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = String(value);
+        }
+      }
+
+      return {
+        ok: response.status >= 200 && response.status < 300,
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: response.data
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+        throw new ProviderTimeoutError(request.timeoutMs, { cause: error });
+      }
+      throw error;
+    }
+  }
+}
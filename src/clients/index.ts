@@ -1,2 +1,9 @@
 // Export base client and any API client implementations
 export * from './base-client';
+export * from './retry';
+export * from './rate-limiter';
+export * from './capabilities';
+export * from './http-transport';
+export * from './connection';
+export * from './key-pool';
+export * from './usage-tracker';
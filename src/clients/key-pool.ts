@@ -0,0 +1,151 @@
+import { RateLimitError } from '../errors';
+
+/**
+ * How a key pool picks the key for the next request
+ * - round-robin: take turns in configuration order
+ * - least-used: the key that has sent the fewest requests
+ */
+export type KeyRotation = 'round-robin' | 'least-used';
+
+export interface KeyPoolOptions {
+  /** Rotation strategy (default: 'round-robin') */
+  rotation?: KeyRotation;
+  /**
+   * How long a key the provider rejected (401 or 429) is skipped when the response
+   * does not say when to retry, in milliseconds (default: one minute)
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Counters of one API key
+ */
+export interface KeyUsage {
+  /** The key with all but its last four characters masked */
+  key: string;
+  /** Requests sent with the key */
+  requests: number;
+  /** Requests the provider refused with 401 or 429 */
+  rejections: number;
+  lastUsedAt?: Date;
+  /** Set while the key is skipped after a rejection */
+  coolingDownUntil?: Date;
+}
+
+interface KeyState {
+  key: string;
+  requests: number;
+  rejections: number;
+  lastUsedAt?: number;
+  coolingDownUntil?: number;
+}
+
+/**
+ * API keys of one provider, handed out in turn. Keys the provider refuses are
+ * skipped until their cooldown ends, so requests carry on with the remaining ones.
+ */
+export class KeyPool {
+  private readonly states: KeyState[];
+  private readonly rotation: KeyRotation;
+  private readonly cooldownMs: number;
+  private cursor = 0;
+
+  constructor(keys: readonly string[], options: KeyPoolOptions = {}) {
+    const unique = [...new Set(keys.filter(Boolean))];
+    if (unique.length === 0) {
+      throw new Error('At least one API key is required');
+    }
+    this.states = unique.map(key => ({ key, requests: 0, rejections: 0 }));
+    this.rotation = options.rotation || 'round-robin';
+    this.cooldownMs = options.cooldownMs ?? 60 * 1000;
+  }
+
+  /**
+   * Every key of the pool, in configuration order
+   */
+  get keys(): string[] {
+    return this.states.map(state => state.key);
+  }
+
+  /**
+   * Whether a key is available for a request
+   */
+  hasAvailable(): boolean {
+    const now = Date.now();
+    return this.states.some(state => !this.isCoolingDown(state, now));
+  }
+
+  /**
+   * Take the key for the next request, counting the request against it
+   * @throws {RateLimitError} If every key is cooling down
+   */
+  next(): string {
+    const now = Date.now();
+    const available = this.states.filter(state => !this.isCoolingDown(state, now));
+    if (available.length === 0) {
+      const retryAfterMs = Math.min(...this.states.map(state => (state.coolingDownUntil as number) - now));
+      throw new RateLimitError(`All API keys are cooling down, next one available in ${retryAfterMs}ms`, {
+        retryAfterMs
+      });
+    }
+
+    const state = this.rotation === 'least-used'
+      ? available.reduce((least, candidate) => candidate.requests < least.requests ? candidate : least)
+      : this.nextInTurn(now);
+    state.requests++;
+    state.lastUsedAt = now;
+    return state.key;
+  }
+
+  /**
+   * Skip a key the provider refused until its cooldown ends. A single key is only counted:
+   * with nothing to rotate to, the retry policy and rate limiter decide when to try again.
+   * @param retryAfterMs How long the provider asked to wait (default: the pool's cooldown,
+   * which also stands in for a wait of 0 so the key is still set aside)
+   */
+  reject(key: string, retryAfterMs?: number): void {
+    const state = this.states.find(candidate => candidate.key === key);
+    if (!state) {
+      return;
+    }
+    state.rejections++;
+    if (this.states.length > 1) {
+      state.coolingDownUntil = Date.now() + (retryAfterMs || this.cooldownMs);
+    }
+  }
+
+  /**
+   * Counters of every key, with the keys masked
+   */
+  getUsage(): KeyUsage[] {
+    const now = Date.now();
+    return this.states.map(state => ({
+      key: maskApiKey(state.key),
+      requests: state.requests,
+      rejections: state.rejections,
+      ...(state.lastUsedAt !== undefined ? { lastUsedAt: new Date(state.lastUsedAt) } : {}),
+      ...(this.isCoolingDown(state, now) ? { coolingDownUntil: new Date(state.coolingDownUntil as number) } : {})
+    }));
+  }
+
+  private nextInTurn(now: number): KeyState {
+    for (;;) {
+      const state = this.states[this.cursor];
+      this.cursor = (this.cursor + 1) % this.states.length;
+      if (!this.isCoolingDown(state, now)) {
+        return state;
+      }
+    }
+  }
+
+  private isCoolingDown(state: KeyState, now: number): boolean {
+    return state.coolingDownUntil !== undefined && state.coolingDownUntil > now;
+  }
+}
+
+/**
+ * Mask an API key for display, keeping its last four characters
+ */
+export function maskApiKey(key: string): string {
+  return key.length > 8 ? `****${key.slice(-4)}` : '****';
+}
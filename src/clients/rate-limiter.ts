@@ -0,0 +1,118 @@
+import { RateLimitError } from '../errors';
+import { delay, throwIfAborted } from './call-options';
+
+/**
+ * Time windows a provider quota can be expressed in
+ */
+export type RateLimitWindow = 'second' | 'minute' | 'day' | 'month';
+
+/**
+ * Maximum number of requests allowed per window
+ */
+export type RateLimits = Partial<Record<RateLimitWindow, number>>;
+
+export const RATE_LIMIT_WINDOW_MS: Record<RateLimitWindow, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Token bucket refilling `capacity` tokens evenly over `windowMs`
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly capacity: number, private readonly windowMs: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Milliseconds until a token is available (0 if one is available now)
+   */
+  timeUntilAvailable(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * (this.windowMs / this.capacity));
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * (this.capacity / this.windowMs));
+      this.lastRefill = now;
+    }
+  }
+}
+
+export interface RateLimiterOptions {
+  /**
+   * Longest a request may be queued before failing with a RateLimitError.
+   * Keeps an exhausted daily or monthly quota from stalling callers for hours.
+   */
+  maxWaitMs?: number;
+}
+
+/**
+ * Queues requests so a provider stays under all of its quota windows at once
+ * (e.g. 5 per minute and 500 per day). Requests are served in FIFO order.
+ */
+export class RateLimiter {
+  private readonly buckets: TokenBucket[];
+  private readonly maxWaitMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(limits: RateLimits, options: RateLimiterOptions = {}) {
+    this.buckets = (Object.entries(limits) as [RateLimitWindow, number | undefined][])
+      .filter((entry): entry is [RateLimitWindow, number] => !!entry[1] && entry[1] > 0)
+      .map(([window, limit]) => new TokenBucket(limit, RATE_LIMIT_WINDOW_MS[window]));
+    this.maxWaitMs = options.maxWaitMs ?? Infinity;
+  }
+
+  /**
+   * Wait for permission to send one request
+   * @param signal Gives up waiting when aborted, leaving the slot to the next request
+   * @returns The number of milliseconds the request was held back
+   * @throws {RateLimitError} If the wait would exceed maxWaitMs
+   * @throws {RequestAbortedError} If the signal is aborted while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<number> {
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    // Keep the queue moving even when one caller gives up
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<number> {
+    let waited = 0;
+
+    for (;;) {
+      throwIfAborted(signal);
+      const wait = Math.max(0, ...this.buckets.map(bucket => bucket.timeUntilAvailable()));
+      if (wait === 0) {
+        this.buckets.forEach(bucket => bucket.take());
+        return waited;
+      }
+
+      if (waited + wait > this.maxWaitMs) {
+        throw new RateLimitError(`Rate limit reached, next request allowed in ${wait}ms`, {
+          retryAfterMs: wait
+        });
+      }
+
+      await delay(wait, signal);
+      waited += wait;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { ApiRequestError, ProviderTimeoutError } from '../errors';
+import { delay } from './call-options';
+
+/**
+ * Retry policy applied to every provider request
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+  /** Base delay in milliseconds, doubled on every retry */
+  retryDelay: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxRetryDelay: number;
+  /** Whether to randomise delays to avoid synchronised retries */
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 30000,
+  jitter: true
+};
+
+/**
+ * Merge partial retry settings (global first, then per provider) over the defaults
+ */
+export function resolveRetryPolicy(...overrides: Array<Partial<RetryPolicy> | undefined>): RetryPolicy {
+  return overrides.reduce<RetryPolicy>((policy, override) => {
+    if (!override) return policy;
+    const defined = Object.entries(override).filter(([_, value]) => value !== undefined);
+    return { ...policy, ...Object.fromEntries(defined) };
+  }, { ...DEFAULT_RETRY_POLICY });
+}
+
+/**
+ * Only rate limiting, server errors and timeouts are worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError) {
+    return true;
+  }
+  if (error instanceof ApiRequestError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff delay for a given retry (0-based), with optional equal jitter
+ */
+export function computeRetryDelay(retry: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxRetryDelay, policy.retryDelay * Math.pow(2, retry));
+  if (!policy.jitter) {
+    return delay;
+  }
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Run an operation, retrying retryable failures according to the policy.
+ * A Retry-After hint from the provider takes precedence over the computed backoff;
+ * if it asks for longer than maxRetryDelay the error is surfaced instead.
+ * @param signal Stops waiting for the next attempt when aborted
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof ApiRequestError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryDelay) {
+        throw error;
+      }
+
+      await delay(retryAfterMs ?? computeRetryDelay(attempt, policy), signal);
+    }
+  }
+}
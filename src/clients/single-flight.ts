@@ -0,0 +1,25 @@
+/**
+ * Collapses concurrent calls with the same key into one: while a call is pending,
+ * later callers get its promise instead of starting their own
+ */
+export class SingleFlight {
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = fn().finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /** Number of calls currently in flight */
+  get size(): number {
+    return this.pending.size;
+  }
+}
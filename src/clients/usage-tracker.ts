@@ -0,0 +1,302 @@
+import { createHash } from 'crypto';
+import type { CacheStore } from '../cache/cache-store';
+import { Logger, silentLogger } from '../logger';
+import { RateLimits, RateLimitWindow } from './rate-limiter';
+import { maskApiKey } from './key-pool';
+
+/**
+ * Usage accounting settings for StocksAPI
+ */
+export interface UsageConfig {
+  /** Store keeping the counts across restarts, e.g. a FileCacheStore (default: counts are kept in memory) */
+  store?: CacheStore;
+  /**
+   * Share of a quota window below which a provider is only used after the providers
+   * with more budget left (default: 0.1). Set to 0 to keep the priority order.
+   */
+  reserve?: number;
+}
+
+/**
+ * Requests counted in the current period of a quota window
+ */
+export interface UsageWindow {
+  used: number;
+  /** Requests allowed in the window, when the provider declares a quota for it */
+  limit?: number;
+  /** Requests left before the quota is exhausted */
+  remaining?: number;
+  /** When the period ends and the count starts over */
+  resetsAt: Date;
+}
+
+/**
+ * Requests counted for one API key
+ */
+export interface KeyQuotaUsage {
+  /** The key with all but its last four characters masked */
+  key: string;
+  /** Requests counted since the counts were first stored */
+  requests: number;
+  windows: Partial<Record<RateLimitWindow, UsageWindow>>;
+}
+
+/**
+ * Requests counted for a provider, against the quota of every key it has
+ */
+export interface ProviderUsage {
+  /** Requests counted since the counts were first stored */
+  requests: number;
+  windows: Partial<Record<RateLimitWindow, UsageWindow>>;
+  keys: KeyQuotaUsage[];
+}
+
+interface WindowCount {
+  /** Epoch milliseconds the period started at */
+  start: number;
+  count: number;
+}
+
+interface KeyCounts {
+  requests: number;
+  windows: Partial<Record<RateLimitWindow, WindowCount>>;
+}
+
+interface ProviderEntry {
+  /** Quota of each key */
+  limits: RateLimits;
+  /** Key fingerprints mapped to the masked keys reported for them */
+  keys: Map<string, string>;
+}
+
+type UsageSnapshot = Record<string, Record<string, KeyCounts>>;
+
+/** Windows always reported; 'second' is added for providers with a per-second quota */
+const REPORTED_WINDOWS: RateLimitWindow[] = ['minute', 'day', 'month'];
+
+const STORE_KEY = 'stocksapi:usage';
+
+/** Stored counts outlive the longest window */
+const STORE_TTL_MS = 32 * 24 * 60 * 60 * 1000;
+
+/**
+ * Counts the requests sent to each provider and with each of its keys over calendar
+ * periods (UTC minutes, days and months), to report the budget left on free tiers
+ */
+export class UsageTracker {
+  /** Share of a window's quota below which a provider counts as nearly exhausted */
+  readonly reserve: number;
+  private counts: UsageSnapshot = {};
+  private readonly providers = new Map<string, ProviderEntry>();
+  private readonly loading: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private savePending = false;
+
+  constructor(private readonly config: UsageConfig = {}, private readonly logger: Logger = silentLogger) {
+    this.reserve = config.reserve ?? 0.1;
+    this.loading = this.load();
+  }
+
+  /**
+   * Declare a provider's keys and the quota of each, so reports include keys without requests
+   */
+  register(provider: string, apiKeys: readonly string[], limits: RateLimits): void {
+    this.providers.set(provider, {
+      limits,
+      keys: new Map(apiKeys.map(key => [fingerprint(key), maskApiKey(key)]))
+    });
+  }
+
+  /**
+   * Count a request sent with a key
+   */
+  record(provider: string, apiKey: string, at: number = Date.now()): void {
+    const id = fingerprint(apiKey);
+    const entry = this.getEntry(provider);
+    if (!entry.keys.has(id)) {
+      entry.keys.set(id, maskApiKey(apiKey));
+    }
+
+    const counts = this.getCounts(provider, id);
+    counts.requests++;
+    for (const window of this.getWindows(entry)) {
+      const start = startOfPeriod(window, at);
+      const current = counts.windows[window];
+      counts.windows[window] = current && current.start === start
+        ? { start, count: current.count + 1 }
+        : { start, count: 1 };
+    }
+    this.save();
+  }
+
+  /**
+   * Requests counted for a provider in the current period of every window
+   */
+  getUsage(provider: string, at: number = Date.now()): ProviderUsage {
+    const entry = this.getEntry(provider);
+    const windows = this.getWindows(entry);
+    const keys: KeyQuotaUsage[] = [...entry.keys].map(([id, masked]) => {
+      const counts = this.counts[provider]?.[id];
+      return {
+        key: masked,
+        requests: counts?.requests || 0,
+        windows: Object.fromEntries(windows.map(window => [
+          window,
+          describeWindow(window, countInPeriod(counts, window, at), entry.limits[window], at)
+        ]))
+      };
+    });
+
+    const keyCount = Math.max(1, entry.keys.size);
+    return {
+      requests: keys.reduce((total, key) => total + key.requests, 0),
+      windows: Object.fromEntries(windows.map(window => {
+        const used = keys.reduce((total, key) => total + (key.windows[window]?.used || 0), 0);
+        const limit = entry.limits[window];
+        return [window, describeWindow(window, used, limit && limit * keyCount, at)];
+      })),
+      keys
+    };
+  }
+
+  /**
+   * Smallest share of a quota left across the provider's windows, between 0 and 1,
+   * or undefined when it declares no quota
+   */
+  getRemainingShare(provider: string, at: number = Date.now()): number | undefined {
+    const shares = Object.values(this.getUsage(provider, at).windows)
+      .filter((window): window is UsageWindow & { limit: number; remaining: number } => !!window?.limit)
+      .map(window => window.remaining / window.limit);
+    return shares.length > 0 ? Math.min(...shares) : undefined;
+  }
+
+  /**
+   * Whether a provider has used up all but its reserve in some window
+   */
+  isNearlyExhausted(provider: string): boolean {
+    const share = this.getRemainingShare(provider);
+    return share !== undefined && share < this.reserve;
+  }
+
+  /**
+   * Resolves once the stored counts are loaded
+   */
+  ready(): Promise<void> {
+    return this.loading;
+  }
+
+  /**
+   * Resolves once the counts recorded so far are stored
+   */
+  async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  private getEntry(provider: string): ProviderEntry {
+    let entry = this.providers.get(provider);
+    if (!entry) {
+      entry = { limits: {}, keys: new Map() };
+      this.providers.set(provider, entry);
+    }
+    return entry;
+  }
+
+  private getCounts(provider: string, id: string): KeyCounts {
+    const byKey = this.counts[provider] || (this.counts[provider] = {});
+    return byKey[id] || (byKey[id] = { requests: 0, windows: {} });
+  }
+
+  private getWindows(entry: ProviderEntry): RateLimitWindow[] {
+    return entry.limits.second ? ['second', ...REPORTED_WINDOWS] : REPORTED_WINDOWS;
+  }
+
+  // Requests counted before the stored counts arrived are added to them
+  private async load(): Promise<void> {
+    if (!this.config.store) {
+      return;
+    }
+    try {
+      const stored = await this.config.store.get<UsageSnapshot>(STORE_KEY);
+      for (const [provider, byKey] of Object.entries(stored || {})) {
+        for (const [id, storedCounts] of Object.entries(byKey)) {
+          const counts = this.getCounts(provider, id);
+          counts.requests += storedCounts.requests;
+          for (const [window, storedWindow] of Object.entries(storedCounts.windows) as [RateLimitWindow, WindowCount][]) {
+            const current = counts.windows[window];
+            if (!current || current.start === storedWindow.start) {
+              counts.windows[window] = { start: storedWindow.start, count: storedWindow.count + (current?.count || 0) };
+            } else if (current.start < storedWindow.start) {
+              counts.windows[window] = storedWindow;
+            }
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Could not load usage counts', { error });
+    }
+  }
+
+  // Writes run one at a time; counts recorded meanwhile go out with the next write
+  private save(): void {
+    const store = this.config.store;
+    if (!store || this.savePending) {
+      return;
+    }
+    this.savePending = true;
+    this.saving = this.saving
+      .then(() => this.loading)
+      .then(() => {
+        this.savePending = false;
+        return store.set(STORE_KEY, this.counts, STORE_TTL_MS);
+      })
+      .catch(error => {
+        this.logger.warn('Could not store usage counts', { error });
+      });
+  }
+}
+
+// Counts are stored under a hash of the key, so the store never holds the key itself
+function fingerprint(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+function countInPeriod(counts: KeyCounts | undefined, window: RateLimitWindow, at: number): number {
+  const current = counts?.windows[window];
+  return current && current.start === startOfPeriod(window, at) ? current.count : 0;
+}
+
+function describeWindow(window: RateLimitWindow, used: number, limit: number | undefined, at: number): UsageWindow {
+  return {
+    used,
+    ...(limit ? { limit, remaining: Math.max(0, limit - used) } : {}),
+    resetsAt: new Date(endOfPeriod(window, at))
+  };
+}
+
+function startOfPeriod(window: RateLimitWindow, at: number): number {
+  const date = new Date(at);
+  switch (window) {
+    case 'second':
+      return Math.floor(at / 1000) * 1000;
+    case 'minute':
+      return Math.floor(at / 60000) * 60000;
+    case 'day':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+function endOfPeriod(window: RateLimitWindow, at: number): number {
+  const start = new Date(startOfPeriod(window, at));
+  switch (window) {
+    case 'second':
+      return start.getTime() + 1000;
+    case 'minute':
+      return start.getTime() + 60000;
+    case 'day':
+      return Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1);
+    case 'month':
+      return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1);
+  }
+}
@@ -2,6 +2,20 @@
  * Configuration for the stock market data API clients
  */
 
+import { RetryPolicy } from './clients/retry';
+import { RateLimits, RateLimitWindow, RATE_LIMIT_WINDOW_MS } from './clients/rate-limiter';
+import type { KeyRotation } from './clients/key-pool';
+import { CircuitBreakerOptions } from './providers/circuit-breaker';
+import type { Feature } from './providers/registry';
+import type { RoutingStrategyConfig } from './providers/routing';
+import type { MergeConfig } from './providers/merge';
+import type { CacheConfig } from './cache';
+import { Logger, silentLogger } from './logger';
+import type { HttpTransport } from './clients/http-transport';
+import type { ConnectionConfig } from './clients/connection';
+import type { UsageConfig } from './clients/usage-tracker';
+import type { ProviderCapabilities } from './clients/capabilities';
+
 export interface ApiProviderConfig {
   /** Provider name */
   name: string;
@@ -9,12 +23,24 @@ export interface ApiProviderConfig {
   baseUrl: string;
   /** API key for authentication */
   apiKey: string;
+  /** Further keys to rotate between; quotas apply per key, so each adds to the provider's rate limits */
+  apiKeys?: string[];
+  /** How requests pick among several keys (default: 'round-robin') */
+  keyRotation?: KeyRotation;
+  /** How long a key refused with 401 or 429 is skipped when the provider does not say, in milliseconds (default: the shortest rate limit window) */
+  keyCooldownMs?: number;
   /** Whether this provider is enabled */
   enabled: boolean;
   /** Priority for fallback (lower number = higher priority) */
   priority: number;
-  /** Rate limit in requests per minute */
+  /** Relative share of requests under the weighted-random routing strategy (default: 1) */
+  weight?: number;
+  /** Rate limit in requests per `rateLimitWindow` */
   rateLimit: number;
+  /** Window `rateLimit` applies to (default: 'minute') */
+  rateLimitWindow?: RateLimitWindow;
+  /** Additional limits for providers with several quota windows, e.g. `{ minute: 5, day: 500 }` */
+  rateLimits?: RateLimits;
   /** Whether this is a premium (paid) plan */
   isPremium: boolean;
   /** Supported features */
@@ -28,9 +54,27 @@ export interface ApiProviderConfig {
     technicals: boolean;
     economic: boolean;
   };
+  /** Retry policy overrides for this provider (falls back to the global settings) */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Hedged requests: when the provider asked first has not answered within `delayMs`,
+ * the same request also goes to the next provider in line. The first usable answer wins
+ * and the requests still running are aborted. Each hedge costs a request against the
+ * next provider's quota.
+ */
+export interface HedgingConfig {
+  /** How long to wait for an answer before asking the next provider, in milliseconds */
+  delayMs: number;
+  /** Features to hedge (default: `['realtime']`) */
+  features?: Feature[];
 }
 
-export type ProviderName = 
+/**
+ * Providers this library ships or reserves a configuration entry for
+ */
+export type BuiltInProviderName = 
   | 'alphaVantage' 
   | 'polygon' 
   | 'finnhub' 
@@ -53,13 +97,84 @@ export type ProviderName =
   | 'tiingo' 
   | 'alphaSense';
 
+/**
+ * Name of a provider: a built-in one, or any name given to `StocksAPI.registerProvider`
+ */
+export type ProviderName = BuiltInProviderName | (string & {});
+
+/**
+ * How a provider added with `StocksAPI.registerProvider` takes part in routing and fallback
+ */
+export interface CustomProviderOptions {
+  /** Priority for fallback (lower number = higher priority, default: 10) */
+  priority?: number;
+  /** Methods, intervals and regions it serves (default: what its client class declares, otherwise everything) */
+  capabilities?: ProviderCapabilities;
+  /**
+   * Settings as for a built-in provider, such as features, weight, API keys, rate limits and
+   * retry policy (default: every feature, no rate limit)
+   */
+  config?: Partial<ApiProviderConfig>;
+}
+
 export interface StocksApiConfig {
   /** Default timeout for API requests in milliseconds */
   requestTimeout: number;
   /** Maximum number of retries for failed requests */
   maxRetries: number;
-  /** Delay between retries in milliseconds */
+  /** Base delay between retries in milliseconds, doubled on every retry */
   retryDelay: number;
+  /** Upper bound for a single retry delay in milliseconds */
+  maxRetryDelay?: number;
+  /**
+   * Longest a request may wait for a provider's rate limit before failing over
+   * to the next provider, in milliseconds (default: 60000)
+   */
+  maxRateLimitWait?: number;
+  /** Circuit breaker settings applied to every provider feature */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /**
+   * Per-feature provider order, e.g. `{ news: ['finnhub', 'tiingo'], historical: ['eodhd'] }`.
+   * Only the listed providers are used for that feature, in the given order.
+   * Quotes go by `realtime`, time series by `historical`, profiles, metrics,
+   * dividends and earnings by `fundamentals`, news by `news` and economic data by `economic`.
+   */
+  routing?: Partial<Record<Feature, ProviderName[]>>;
+  /**
+   * How providers are ordered for features without a `routing` list: 'priority' (default),
+   * 'latency', 'quota' or 'weighted-random', for every feature or per feature
+   */
+  routingStrategy?: RoutingStrategyConfig;
+  /** Race the next provider against one slow to answer (default: off, providers are tried one at a time) */
+  hedging?: HedgingConfig;
+  /**
+   * Merge company profiles and financial metrics field by field across providers instead of
+   * taking the first provider's record (default: off)
+   */
+  merge?: MergeConfig;
+  /**
+   * Attach a non-enumerable `meta` to every result, telling which provider and endpoint
+   * served it, when, whether from the cache and after how many attempts (default: false)
+   */
+  metadata?: boolean;
+  /**
+   * Attach `meta` as with `metadata`, adding the trace of every provider asked: how long
+   * each took and why it was passed over (default: false)
+   */
+  debug?: boolean;
+  /** Response caching; enabled with an in-memory LRU store unless `enabled` is false */
+  cache?: CacheConfig;
+  /** Logger for warnings and provider failures (default: silent). API keys are masked in every entry. */
+  logger?: Logger;
+  /** Sends every provider request (default: a FetchTransport using the global fetch) */
+  transport?: HttpTransport;
+  /**
+   * Proxy, extra CA certificates and keep-alive settings for every provider request.
+   * Ignored when a `transport` is given.
+   */
+  connection?: ConnectionConfig;
+  /** Request counting against each provider's quota; counts are kept in memory unless a store is given */
+  usage?: UsageConfig;
   /** List of API providers */
   providers: {
     alphaVantage?: ApiProviderConfig;
@@ -93,6 +208,7 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
   requestTimeout: 30000, // 30 seconds
   maxRetries: 3,
   retryDelay: 1000, // 1 second
+  maxRateLimitWait: 60000, // 1 minute
   providers: {
     alphaVantage: {
       name: 'Alpha Vantage',
@@ -178,6 +294,7 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
       enabled: true,
       priority: 5,
       rateLimit: 100, // Free tier: 100 requests per month
+      rateLimitWindow: 'month',
       isPremium: false,
       features: {
         realtime: true,
@@ -197,6 +314,7 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
       enabled: true,
       priority: 6,
       rateLimit: 1000, // Free tier: 1000 requests per day
+      rateLimitWindow: 'day',
       isPremium: false,
       features: {
         realtime: true,
@@ -216,6 +334,7 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
       enabled: true,
       priority: 7,
       rateLimit: 250, // Free tier: 250 requests per day
+      rateLimitWindow: 'day',
       isPremium: false,
       features: {
         realtime: true,
@@ -236,6 +355,7 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
       enabled: true,
       priority: 8,
       rateLimit: 1000, // Free tier: 1000 requests per day
+      rateLimitWindow: 'day',
       isPremium: false,
       features: {
         realtime: true,
@@ -274,26 +394,84 @@ export const DEFAULT_CONFIG: StocksApiConfig = {
  * Validates the configuration and returns a sanitized version
  */
 export function validateConfig(config: Partial<StocksApiConfig> = {}): StocksApiConfig {
+  const providers: StocksApiConfig['providers'] = { ...DEFAULT_CONFIG.providers };
+  
+  // Merge each provider over its defaults so partial settings (e.g. just an API key)
+  // keep the default features, priority and rate limits
+  for (const [name, provider] of Object.entries(config.providers || {}) as [keyof StocksApiConfig['providers'], ApiProviderConfig | undefined][]) {
+    const defaults = DEFAULT_CONFIG.providers[name];
+    providers[name] = provider && defaults
+      ? { ...defaults, ...provider, features: { ...defaults.features, ...provider.features } }
+      : provider;
+  }
+  
   const mergedConfig: StocksApiConfig = {
     ...DEFAULT_CONFIG,
     ...config,
-    providers: {
-      ...DEFAULT_CONFIG.providers,
-      ...(config.providers || {})
-    }
+    providers
   };
 
   // Disable providers without API keys
-  Object.values(mergedConfig.providers).forEach(provider => {
-    if (provider && !provider.apiKey) {
-      console.warn(`API key not found for ${provider.name}. Disabling provider.`);
-      provider.enabled = false;
+  const logger = config.logger || silentLogger;
+  for (const [name, provider] of Object.entries(mergedConfig.providers) as [keyof StocksApiConfig['providers'], ApiProviderConfig | undefined][]) {
+    if (!provider) {
+      continue;
     }
-  });
+    const [apiKey] = getProviderApiKeys(provider);
+    if (!apiKey) {
+      logger.warn('API key not found, disabling provider', { provider: name });
+      mergedConfig.providers[name] = { ...provider, enabled: false };
+    } else if (!provider.apiKey) {
+      mergedConfig.providers[name] = { ...provider, apiKey };
+    }
+  }
 
   return mergedConfig;
 }
 
+/**
+ * Quota windows declared for a provider, as they apply to each of its keys
+ */
+export function getProviderKeyRateLimits(provider: ApiProviderConfig): RateLimits {
+  return {
+    ...(provider.rateLimit ? { [provider.rateLimitWindow || 'minute']: provider.rateLimit } : {}),
+    ...provider.rateLimits
+  };
+}
+
+/**
+ * Collect every quota window declared for a provider. Quotas apply per key,
+ * so a provider with several keys gets them multiplied by the number of keys.
+ */
+export function getProviderRateLimits(provider: ApiProviderConfig): RateLimits {
+  const keyCount = Math.max(1, getProviderApiKeys(provider).length);
+  return Object.fromEntries(
+    Object.entries(getProviderKeyRateLimits(provider)).map(([window, limit]) => [window, limit && limit * keyCount])
+  ) as RateLimits;
+}
+
+/**
+ * Every API key configured for a provider, `apiKey` first, without duplicates
+ */
+export function getProviderApiKeys(provider: ApiProviderConfig): string[] {
+  return [...new Set([provider.apiKey, ...(provider.apiKeys || [])].filter(Boolean))];
+}
+
+/**
+ * How long a refused key of a provider is skipped: the configured cooldown,
+ * otherwise the shortest quota window
+ */
+export function getProviderKeyCooldown(provider: ApiProviderConfig): number {
+  if (provider.keyCooldownMs !== undefined) {
+    return provider.keyCooldownMs;
+  }
+  const windows = Object.keys(getProviderRateLimits(provider)) as RateLimitWindow[];
+  if (windows.length === 0) {
+    return RATE_LIMIT_WINDOW_MS.minute;
+  }
+  return Math.min(...windows.map(window => RATE_LIMIT_WINDOW_MS[window]));
+}
+
 /**
  * Get a list of enabled providers sorted by priority
  */
@@ -0,0 +1,205 @@
+/**
+ * Error types thrown by the stock API clients
+ */
+
+/**
+ * Base class for all errors raised by this library
+ */
+export class StocksApiError extends Error {
+  /** Provider that raised the error, if known */
+  provider?: string;
+
+  constructor(message: string, options: { provider?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.provider = options.provider;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * A provider answered an HTTP request with a non-success status
+ */
+export class ApiRequestError extends StocksApiError {
+  /** HTTP status code returned by the provider */
+  readonly status?: number;
+  /** Delay requested by the provider through a Retry-After header, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { provider?: string; status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, options);
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The request could not be sent or no answer came back, e.g. the connection was refused or reset
+ */
+export class NetworkError extends ApiRequestError {}
+
+/**
+ * A provider did not answer within the configured request timeout
+ */
+export class ProviderTimeoutError extends StocksApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: { provider?: string; cause?: unknown } = {}) {
+    super(`Request timed out after ${timeoutMs}ms`, options);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller aborted the call or its deadline (timeoutMs) passed.
+ * Remaining retries and providers are not tried.
+ */
+export class RequestAbortedError extends StocksApiError {
+  /** Whether the call's deadline passed, rather than its signal being aborted */
+  readonly timedOut: boolean;
+
+  constructor(message: string, options: { provider?: string; timedOut?: boolean; cause?: unknown } = {}) {
+    super(message, options);
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+/**
+ * A provider rejected the request for exceeding its rate limit, or the local
+ * rate limiter would have had to wait longer than allowed to stay under it
+ */
+export class RateLimitError extends ApiRequestError {}
+
+/**
+ * A provider rejected the API key (missing, invalid, or not entitled to the endpoint)
+ */
+export class AuthenticationError extends ApiRequestError {}
+
+/**
+ * A provider does not know the requested symbol or returned no data for it
+ */
+export class SymbolNotFoundError extends ApiRequestError {
+  readonly symbol?: string;
+
+  constructor(
+    message: string,
+    options: { provider?: string; symbol?: string; status?: number; cause?: unknown } = {}
+  ) {
+    super(message, options);
+    this.symbol = options.symbol;
+  }
+}
+
+/**
+ * The provider does not offer the requested data (or not on the current plan)
+ */
+export class NotSupportedError extends StocksApiError {
+  readonly method?: string;
+
+  constructor(message: string, options: { provider?: string; method?: string; cause?: unknown } = {}) {
+    super(message, options);
+    this.method = options.method;
+  }
+}
+
+/**
+ * One provider's attempt during a fallback chain
+ */
+export interface ProviderAttempt {
+  provider: string;
+  /** Why the attempt failed; undefined when the provider answered, with data or empty-handed */
+  error?: Error;
+  /** How long the provider took to answer or fail, in milliseconds */
+  durationMs?: number;
+  /** Class of the error, e.g. `RateLimitError` */
+  errorType?: string;
+  /** HTTP status the provider failed with, when it answered */
+  status?: number;
+  /** Whether the provider answered with an empty result */
+  empty?: boolean;
+}
+
+/**
+ * Describe how a provider's attempt went: failed with `error`, or answered with an empty
+ * result or with data
+ */
+export function createProviderAttempt(
+  provider: string,
+  durationMs: number,
+  outcome: { error: unknown } | { empty: boolean }
+): ProviderAttempt {
+  if (!('error' in outcome)) {
+    return { provider, durationMs, empty: outcome.empty };
+  }
+  const error = outcome.error instanceof Error ? outcome.error : new Error(String(outcome.error));
+  return {
+    provider,
+    error,
+    durationMs,
+    errorType: error.name,
+    ...(error instanceof ApiRequestError && error.status !== undefined ? { status: error.status } : {}),
+    empty: false
+  };
+}
+
+/**
+ * Every provider able to serve a request failed or returned nothing
+ */
+export class AllProvidersFailedError extends StocksApiError {
+  readonly attempts: ProviderAttempt[];
+
+  constructor(attempts: ProviderAttempt[], options: { feature?: string } = {}) {
+    const details = attempts
+      .map(attempt => `${attempt.provider}: ${attempt.error ? attempt.error.message : 'empty result'}`)
+      .join('; ');
+    const message = attempts.length > 0
+      ? `All providers failed (${details})`
+      : `All providers failed: no provider available${options.feature ? ` for ${options.feature}` : ''}`;
+    super(message, { cause: attempts[attempts.length - 1]?.error });
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Map an HTTP status to the matching error type
+ */
+export function createApiError(
+  message: string,
+  options: { provider?: string; status?: number; retryAfterMs?: number; cause?: unknown } = {}
+): ApiRequestError {
+  switch (options.status) {
+    case 401:
+    case 403:
+      return new AuthenticationError(message, options);
+    case 404:
+      return new SymbolNotFoundError(message, options);
+    case 429:
+      return new RateLimitError(message, options);
+    default:
+      return new ApiRequestError(message, options);
+  }
+}
+
+/**
+ * Prefix an error message with context while keeping its type, status and stack.
+ * Errors that are not ours yet are wrapped in a StocksApiError.
+ * Requests shared between concurrent callers reject every caller with the same
+ * error, so a context already present in the message is not added again.
+ */
+export function withErrorContext(error: unknown, context: string, provider?: string): StocksApiError {
+  if (error instanceof StocksApiError) {
+    if (!error.message.includes(`${context}: `)) {
+      error.message = `${context}: ${error.message}`;
+    }
+    error.provider = error.provider ?? provider;
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new StocksApiError(`${context}: ${message}`, { provider, cause: error });
+}
@@ -0,0 +1,111 @@
+/**
+ * Lifecycle events emitted by StocksAPI and the provider clients
+ */
+import { EventEmitter } from 'events';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * An HTTP request to a provider is about to be sent (once per attempt, so retries emit again)
+ */
+export interface RequestStartEvent {
+  provider: string;
+  endpoint: string;
+}
+
+/**
+ * An HTTP request to a provider completed or failed
+ */
+export interface RequestEndEvent {
+  provider: string;
+  endpoint: string;
+  /** HTTP status, when the provider answered */
+  status?: number;
+  latencyMs: number;
+  /** Response size from the Content-Length header, when the provider sent one */
+  bytes?: number;
+  /** Set when the request failed */
+  error?: Error;
+}
+
+/**
+ * A provider failed or had no data, so the request moves on to the next provider in line (if any)
+ */
+export interface FallbackEvent {
+  feature: string;
+  provider: string;
+  /** Why the provider was passed over; undefined when it answered with an empty result */
+  error?: Error;
+}
+
+/**
+ * A provider was slow to answer, so the request also went to the next provider in line
+ */
+export interface HedgeEvent {
+  feature: string;
+  /** Provider the request went to */
+  provider: string;
+  /** Providers still being waited for */
+  waitingFor: string[];
+  delayMs: number;
+}
+
+/**
+ * A response was served from the cache
+ */
+export interface CacheHitEvent {
+  method: string;
+  key: string;
+}
+
+/**
+ * A request waited for a provider's rate limit before being sent
+ */
+export interface RateLimitWaitEvent {
+  provider: string;
+  waitMs: number;
+}
+
+export interface StocksApiEvents {
+  'request:start': RequestStartEvent;
+  'request:end': RequestEndEvent;
+  'fallback': FallbackEvent;
+  'hedge': HedgeEvent;
+  'cache:hit': CacheHitEvent;
+  'ratelimit:wait': RateLimitWaitEvent;
+}
+
+export type StocksApiEventName = keyof StocksApiEvents;
+
+/**
+ * Typed event emitter shared by StocksAPI and its clients
+ */
+export class StocksApiEmitter extends EventEmitter {
+  constructor(private readonly logger: Logger = silentLogger) {
+    super();
+  }
+
+  on<E extends StocksApiEventName>(event: E, listener: (payload: StocksApiEvents[E]) => void): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends StocksApiEventName>(event: E, listener: (payload: StocksApiEvents[E]) => void): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends StocksApiEventName>(event: E, listener: (payload: StocksApiEvents[E]) => void): this {
+    return super.off(event, listener);
+  }
+
+  /**
+   * Notify listeners. A throwing listener must not fail the request being observed,
+   * so listener errors are reported and otherwise ignored.
+   */
+  emit<E extends StocksApiEventName>(event: E, payload: StocksApiEvents[E]): boolean {
+    try {
+      return super.emit(event, payload);
+    } catch (error) {
+      this.logger.warn('Event listener threw', { event, error });
+      return true;
+    }
+  }
+}
@@ -16,4 +16,32 @@
 export * from './stocks-api';
 
 // Export the base client for advanced usage (but not the interface to avoid conflicts)
-export { BaseStockApiClient } from './clients';
\ No newline at end of file
+export {
+  BaseStockApiClient,
+  BaseClientOptions,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  CapabilityMethod,
+  CapabilityReport,
+  MethodCapability,
+  ProviderCapabilities,
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+  ProviderAuth,
+  ProviderHttpConfig,
+  FetchTransport,
+  AxiosTransport,
+  ConnectionConfig,
+  createConnectionAgents,
+  createConnectionTransport,
+  KeyPool,
+  KeyPoolOptions,
+  KeyRotation,
+  KeyUsage,
+  UsageTracker,
+  UsageConfig,
+  UsageWindow,
+  ProviderUsage,
+  KeyQuotaUsage
+} from './clients';
\ No newline at end of file
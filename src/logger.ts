@@ -0,0 +1,136 @@
+/**
+ * Structured logging for StocksAPI and the provider clients
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context of a log entry, e.g. provider, method, symbol and error
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger accepted by StocksAPI. winston loggers can be passed as they are; pino takes
+ * the fields first, so wrap it: `warn: (message, fields) => pino.warn(fields, message)`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const noop = (): void => {};
+
+/**
+ * Logger that discards everything (the default)
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Logger writing to the console, for scripts and debugging
+ * @param level Least severe level to write (default: 'warn')
+ */
+export function createConsoleLogger(level: LogLevel = 'warn'): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const write = (entryLevel: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(entryLevel) < threshold) {
+      return;
+    }
+    if (fields && Object.keys(fields).length > 0) {
+      console[entryLevel](message, fields);
+    } else {
+      console[entryLevel](message);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+const REDACTED = '[REDACTED]';
+
+// Query parameters the providers use to pass API keys
+const CREDENTIAL_PARAM = /([?&](?:apikey|api_key|api_token|access_key|token)=)[^&#\s"']*/gi;
+
+/**
+ * Mask API keys in a string: credential query parameters of URLs and any of the given secrets
+ */
+export function redactSecrets(text: string, secrets: readonly string[] = []): string {
+  let redacted = text.replace(CREDENTIAL_PARAM, `$1${REDACTED}`);
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Wrap a logger so every entry carries the given fields and has its API keys masked
+ * @param options.fields Added to every entry; fields passed to a call take precedence
+ * @param options.secrets Values to mask wherever they appear, such as configured API keys
+ */
+export function createScopedLogger(
+  logger: Logger,
+  options: { fields?: LogFields; secrets?: readonly string[] } = {}
+): Logger {
+  const secrets = (options.secrets || []).filter(Boolean);
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    logger[level](
+      redactSecrets(message, secrets),
+      redactValue({ ...options.fields, ...fields }, secrets, new WeakSet()) as LogFields
+    );
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
+
+function redactValue(value: unknown, secrets: readonly string[], seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value, secrets);
+  }
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, secrets, seen));
+  }
+  if (value instanceof Error) {
+    // Copy the error with the same prototype, so instanceof checks and
+    // properties such as status still work for the logger
+    const copy = Object.create(Object.getPrototypeOf(value)) as Error;
+    for (const key of Object.getOwnPropertyNames(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key) as PropertyDescriptor;
+      if ('value' in descriptor) {
+        descriptor.value = redactValue(descriptor.value, secrets, seen);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+    return copy;
+  }
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, secrets, seen)])
+    );
+  }
+  return value;
+}
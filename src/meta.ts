@@ -0,0 +1,85 @@
+/**
+ * Provenance of the results returned by StocksAPI
+ */
+import type { CallTrace } from './clients/call-trace';
+import type { ProviderAttempt } from './errors';
+
+/**
+ * Where a result came from, attached as a non-enumerable `meta` property when
+ * StocksAPI is created with `metadata: true`. Being non-enumerable, it stays out of
+ * JSON, spreads and equality checks; read it with `getResultMeta`.
+ */
+export interface ResultMeta {
+  /** Provider whose answer was returned; unset for batches and consensus quotes, which combine several */
+  provider?: string;
+  /** Last endpoint requested from that provider, without credentials */
+  endpoint?: string;
+  /** When the result was fetched from the provider */
+  fetchedAt: Date;
+  /** Whether this call was served from the cache */
+  cache: 'hit' | 'miss';
+  /** Providers asked for this call, including the one that answered */
+  attempts: number;
+  /** How old the data was when fetched, for results with a `timestamp` such as quotes */
+  delayMs?: number;
+  /** Provider each field came from, for records merged across providers */
+  fields?: Record<string, string>;
+  /** Every provider asked, in the order they settled, when StocksAPI is created with `debug: true` */
+  trace?: ProviderAttempt[];
+}
+
+/**
+ * Provenance of a result returned by StocksAPI, if it carries any
+ */
+export function getResultMeta(value: unknown): ResultMeta | undefined {
+  return typeof value === 'object' && value !== null
+    ? (value as { meta?: ResultMeta }).meta
+    : undefined;
+}
+
+/**
+ * Shallow copy of an object or array carrying the given provenance as a non-enumerable
+ * `meta` property. Other values are returned as they are.
+ */
+export function attachMeta<T>(value: T, meta: ResultMeta): T {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const copy = (Array.isArray(value) ? [...value] : { ...value }) as T;
+  Object.defineProperty(copy, 'meta', { value: meta, enumerable: false, configurable: true });
+  return copy;
+}
+
+/**
+ * The same result as served from the cache: fetched earlier, without asking any provider now
+ */
+export function markCacheHit<T>(value: T): T {
+  const meta = getResultMeta(value);
+  return meta
+    ? attachMeta(value, { ...meta, cache: 'hit', attempts: 0, ...(meta.trace ? { trace: [] } : {}) })
+    : value;
+}
+
+/**
+ * Provenance of a result from the trace of the call that produced it, including the
+ * attempts themselves with `debug`
+ */
+export function describeTrace(trace: CallTrace, result: unknown, options: { debug?: boolean } = {}): ResultMeta {
+  const fetchedAt = new Date();
+  const request = [...trace.requests].reverse()
+    .find(candidate => candidate.provider === trace.provider && !candidate.error);
+  const timestamp = typeof result === 'object' && result !== null
+    ? (result as { timestamp?: unknown }).timestamp
+    : undefined;
+
+  return {
+    provider: trace.provider,
+    endpoint: request?.endpoint,
+    fetchedAt,
+    cache: trace.attempts.length > 0 ? 'miss' : 'hit',
+    attempts: trace.attempts.length,
+    ...(timestamp instanceof Date ? { delayMs: Math.max(0, fetchedAt.getTime() - timestamp.getTime()) } : {}),
+    ...(trace.sources ? { fields: trace.sources } : {}),
+    ...(options.debug ? { trace: [...trace.attempts] } : {})
+  };
+}
@@ -1,4 +1,7 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
+import { NotSupportedError } from '../errors';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -12,39 +15,58 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
+/**
+ * Options for AlphaVantageClient.getCompanyProfile, on top of the call options
+ */
+export interface AlphaVantageProfileOptions extends CallOptions {
+  /** Get the profile as of a specific date */
+  asOfDate?: Date;
+  /** Include the latest price and change (default: false) */
+  includeHistorical?: boolean;
+}
+
 /**
  * Alpha Vantage API client implementation
  * Documentation: https://www.alphavantage.co/documentation/
  */
 export class AlphaVantageClient extends BaseStockApiClient {
-  private readonly baseQuoteUrl: string;
-  private readonly baseFundamentalUrl: string;
-  private readonly baseForexUrl: string;
-  private readonly baseCryptoUrl: string;
-  private readonly baseTechnicalUrl: string;
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true
+  };
+
+  static readonly http: ProviderHttpConfig = {
+    auth: { in: 'query', name: 'apikey' },
+    params: { datatype: 'json' }
+  };
+
+  static readonly displayName = 'Alpha Vantage';
 
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    super(apiKey, 'https://www.alphavantage.co/query', requestTimeout);
-    this.baseQuoteUrl = 'https://www.alphavantage.co/query';
-    this.baseFundamentalUrl = 'https://www.alphavantage.co/query';
-    this.baseForexUrl = 'https://www.alphavantage.co/query';
-    this.baseCryptoUrl = 'https://www.alphavantage.co/query';
-    this.baseTechnicalUrl = 'https://www.alphavantage.co/query';
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://www.alphavantage.co/query', requestTimeout, options);
   }
 
   /**
    * Get a stock quote
    */
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     // Get the current quote first
-    const data = await this.makeRequest<Record<string, any>>(this.baseQuoteUrl, {
+    const data = await this.makeRequest<Record<string, any>>(this.baseUrl, {
       function: 'GLOBAL_QUOTE',
-      symbol,
-      apikey: this.apiKey
+      symbol
     });
 
     const quote = data['Global Quote'];
@@ -85,7 +107,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
           performance
         };
       } catch (error) {
-        console.warn(`Could not fetch historical data for ${symbol}:`, error);
+        this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         // Return basic quote if historical data fetch fails
         return mappedQuote;
       }
@@ -97,7 +119,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
   /**
    * Get multiple stock quotes in a single request
    */
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     // Alpha Vantage doesn't support batch quotes in free tier, so we'll make individual requests
     const results: BatchQuoteResult = {};
     
@@ -124,28 +146,26 @@ export class AlphaVantageClient extends BaseStockApiClient {
   /**
    * Get company profile information with optional date range filtering
    * @param symbol Stock symbol
-   * @param asOfDate Optional date to get the profile as of a specific date
-   * @param includeHistorical Whether to include historical data points (if available)
+   * @param options.asOfDate Optional date to get the profile as of a specific date
+   * @param options.includeHistorical Whether to include historical data points (if available)
    */
   async getCompanyProfile(
     symbol: string, 
-    asOfDate?: Date,
-    includeHistorical: boolean = false
+    options: AlphaVantageProfileOptions = {}
   ): Promise<CompanyProfile> {
+    const { asOfDate, includeHistorical = false } = options;
     // First, get the latest company overview
-    const overviewData = await this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+    const overviewData = await this.makeRequest<Record<string, any>>(this.baseUrl, {
       function: 'OVERVIEW',
-      symbol,
-      apikey: this.apiKey
+      symbol
     });
 
     // If a specific date is requested, we'll need to fetch historical data
     if (asOfDate) {
       // Get the latest quarterly report before or on the asOfDate
-      const incomeData = await this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      const incomeData = await this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'INCOME_STATEMENT',
-        symbol,
-        apikey: this.apiKey
+        symbol
       });
 
       // Find the most recent quarter before or on the asOfDate
@@ -168,10 +188,9 @@ export class AlphaVantageClient extends BaseStockApiClient {
     // If historical data is requested, fetch additional metrics
     if (includeHistorical) {
       // Get additional metrics that might be useful for historical analysis
-      const metrics = await this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      const metrics = await this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'GLOBAL_QUOTE',
-        symbol,
-        apikey: this.apiKey
+        symbol
       });
 
       // Merge the metrics into our overview data
@@ -189,23 +208,22 @@ export class AlphaVantageClient extends BaseStockApiClient {
   /**
    * Get multiple company profiles with optional date range filtering
    * @param symbols Array of stock symbols
-   * @param asOfDate Optional date to get the profiles as of a specific date
-   * @param includeHistorical Whether to include historical data points (if available)
-   * @param batchSize Maximum number of concurrent requests (default: 3 to respect API rate limits)
+   * @param options.asOfDate Optional date to get the profiles as of a specific date
+   * @param options.includeHistorical Whether to include historical data points (if available)
+   * @param options.batchSize Maximum number of concurrent requests (default: 3 to respect API rate limits)
    */
   async getCompanyProfiles(
     symbols: string[],
-    asOfDate?: Date,
-    includeHistorical: boolean = false,
-    batchSize: number = 3
+    options: AlphaVantageProfileOptions & { batchSize?: number } = {}
   ): Promise<BatchCompanyProfileResult> {
+    const { asOfDate, includeHistorical, batchSize = 3 } = options;
     const results: BatchCompanyProfileResult = {};
     
     // Process symbols in batches to avoid hitting rate limits
     for (let i = 0; i < symbols.length; i += batchSize) {
       const batch = symbols.slice(i, i + batchSize);
       const batchPromises = batch.map(symbol => 
-        this.getCompanyProfile(symbol, asOfDate, includeHistorical)
+        this.getCompanyProfile(symbol, { asOfDate, includeHistorical })
           .then(profile => ({
             success: true as const,
             data: profile,
@@ -253,7 +271,8 @@ export class AlphaVantageClient extends BaseStockApiClient {
     period?: number,
     startDate?: Date,
     endDate?: Date,
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     const functionMap: Record<string, string> = {
       '1min': 'TIME_SERIES_INTRADAY',
@@ -269,7 +288,6 @@ export class AlphaVantageClient extends BaseStockApiClient {
     const params: Record<string, string> = {
       function: functionMap[interval] || 'TIME_SERIES_DAILY',
       symbol,
-      apikey: this.apiKey,
       outputsize: outputSize
     };
 
@@ -278,7 +296,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
       params.interval = interval;
     }
 
-    const data = await this.makeRequest<Record<string, any>>(this.baseQuoteUrl, params);
+    const data = await this.makeRequest<Record<string, any>>(this.baseUrl, params);
     
     // The response key varies based on the function used
     let timeSeriesKey = '';
@@ -330,34 +348,30 @@ export class AlphaVantageClient extends BaseStockApiClient {
     symbol: string,
     asOfDate: Date = new Date(),
     period: 'annual' | 'quarterly' | 'ttm' = 'ttm',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     // Fetch all required data in parallel
     const [overview, income, cashFlow, balanceSheet, earnings] = await Promise.all([
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'OVERVIEW',
-        symbol,
-        apikey: this.apiKey
+        symbol
       }),
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'INCOME_STATEMENT',
-        symbol,
-        apikey: this.apiKey
+        symbol
       }),
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'CASH_FLOW',
-        symbol,
-        apikey: this.apiKey
+        symbol
       }),
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'BALANCE_SHEET',
-        symbol,
-        apikey: this.apiKey
+        symbol
       }),
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'EARNINGS',
-        symbol,
-        apikey: this.apiKey
+        symbol
       })
     ]);
 
@@ -413,7 +427,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
         metrics.epsGrowthQOQ = previousEPS !== 0 ? ((currentEPS - previousEPS) / Math.abs(previousEPS)) * 100 : undefined;
       }
     } catch (error) {
-      console.warn('Error calculating growth metrics:', error);
+      this.logger.warn('Error calculating growth metrics', { method: 'calculateGrowthMetrics', error });
       // Don't fail the whole request if growth metrics calculation fails
     }
   }
@@ -445,11 +459,10 @@ export class AlphaVantageClient extends BaseStockApiClient {
   /**
    * Get dividend history for a stock
    */
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
-    const data = await this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
+    const data = await this.makeRequest<Record<string, any>>(this.baseUrl, {
       function: 'TIME_SERIES_MONTHLY_ADJUSTED',
-      symbol,
-      apikey: this.apiKey
+      symbol
     });
 
     return this.mapDividends(data, symbol, startDate, endDate);
@@ -465,7 +478,8 @@ export class AlphaVantageClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     // Handle both number (for backward compatibility) and options object
     const {
@@ -477,16 +491,14 @@ export class AlphaVantageClient extends BaseStockApiClient {
 
     // Fetch both historical and future earnings if requested
     const [historicalData, futureData] = await Promise.all([
-      this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+      this.makeRequest<Record<string, any>>(this.baseUrl, {
         function: 'EARNINGS',
-        symbol,
-        apikey: this.apiKey
+        symbol
       }),
       includeFutureReports 
-        ? this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+        ? this.makeRequest<Record<string, any>>(this.baseUrl, {
             function: 'EARNINGS_CALENDAR',
             symbol,
-            apikey: this.apiKey,
             horizon: '3month' // Get next 3 months of earnings
           }).catch(() => null) // Gracefully handle if not available
         : Promise.resolve(null)
@@ -528,7 +540,8 @@ export class AlphaVantageClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     const {
       limit = 50,
@@ -538,9 +551,8 @@ export class AlphaVantageClient extends BaseStockApiClient {
     } = options;
 
     // Fetch the earnings calendar
-    const data = await this.makeRequest<Record<string, any>>(this.baseFundamentalUrl, {
+    const data = await this.makeRequest<Record<string, any>>(this.baseUrl, {
       function: 'EARNINGS_CALENDAR',
-      apikey: this.apiKey,
       horizon: '3month' // Next 3 months by default
     });
 
@@ -563,11 +575,10 @@ export class AlphaVantageClient extends BaseStockApiClient {
   /**
    * Search for stock symbols
    */
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     const data = await this.makeRequest<Record<string, any>>(this.baseUrl, {
       function: 'SYMBOL_SEARCH',
-      keywords: query,
-      apikey: this.apiKey
+      keywords: query
     });
 
     return this.mapSymbolSearch(data);
@@ -577,9 +588,12 @@ export class AlphaVantageClient extends BaseStockApiClient {
    * Get market news
    * Note: Alpha Vantage doesn't have a direct news endpoint in the free tier
    */
-  async getMarketNews(symbols?: string[], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols?: string[], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     // Alpha Vantage premium feature only
-    throw new Error('Market news requires a premium Alpha Vantage subscription');
+    throw new NotSupportedError('Market news requires a premium Alpha Vantage subscription', {
+      provider: 'Alpha Vantage',
+      method: 'getMarketNews'
+    });
   }
 
   // Helper methods to map Alpha Vantage responses to our types
@@ -1054,7 +1068,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
           
           reports.push(report);
         } catch (error) {
-          console.warn('Error parsing earnings report line:', line, error);
+          this.logger.warn('Error parsing earnings report line', { method: 'parseEarningsCalendar', line, error });
         }
       }
       
@@ -1095,7 +1109,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
    * Alpha Vantage doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by Alpha Vantage');
+    this.logger.warn('Economic events are not supported by Alpha Vantage', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -1103,7 +1117,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
    * Alpha Vantage doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by Alpha Vantage');
+    this.logger.warn('Economic calendar is not supported by Alpha Vantage', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -1111,7 +1125,7 @@ export class AlphaVantageClient extends BaseStockApiClient {
    * Alpha Vantage doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by Alpha Vantage');
+    this.logger.warn('Economic indicators are not supported by Alpha Vantage', { method: 'getEconomicIndicator' });
     return [];
   }
 }
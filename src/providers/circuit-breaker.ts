@@ -0,0 +1,91 @@
+/**
+ * State of a circuit breaker:
+ * - closed: requests flow normally
+ * - open: requests are rejected until the cool-down elapses
+ * - half-open: a limited number of trial requests decide whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before allowing a trial request, in milliseconds */
+  cooldownMs: number;
+  /** Trial requests allowed at once while half-open */
+  halfOpenMaxAttempts: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 60000,
+  halfOpenMaxAttempts: 1
+};
+
+/**
+ * Circuit breaker guarding a single provider feature
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialsInFlight = 0;
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Current state, moving from open to half-open once the cool-down has elapsed
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.currentState = 'half-open';
+      this.trialsInFlight = 0;
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Whether a request may be sent right now. In half-open state this reserves a trial slot,
+   * so every acquired call must be followed by recordSuccess, recordFailure or release.
+   */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.trialsInFlight < this.options.halfOpenMaxAttempts) {
+          this.trialsInFlight++;
+          return true;
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialsInFlight = 0;
+    this.currentState = 'closed';
+  }
+
+  /**
+   * Give back a trial slot without an outcome, e.g. when the caller cancelled the request
+   */
+  release(): void {
+    if (this.currentState === 'half-open' && this.trialsInFlight > 0) {
+      this.trialsInFlight--;
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.currentState === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.currentState = 'open';
+      this.openedAt = Date.now();
+      this.trialsInFlight = 0;
+    }
+  }
+}
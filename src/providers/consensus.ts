@@ -0,0 +1,55 @@
+import type { StockQuote } from '../types';
+
+/**
+ * A quote and the provider it came from
+ */
+export interface ProviderQuote {
+  provider: string;
+  quote: StockQuote;
+}
+
+/**
+ * Combine the quotes of several providers into one priced at their median.
+ * The other fields come from the quote closest to the median (the first in routing order
+ * on a tie), with the change recomputed against its previous close.
+ * @param answers Quotes in routing order; at least one
+ * @param requested Number of providers asked
+ * @param outlierPercent Distance from the median, in percent, beyond which a price is an outlier
+ */
+export function buildConsensusQuote(answers: ProviderQuote[], requested: number, outlierPercent: number = 1): StockQuote {
+  const prices = answers.map(answer => answer.quote.price);
+  const price = median(prices);
+  const deviation = median(prices.map(value => Math.abs(value - price)));
+  const isOutlier = (value: number) => price !== 0 && Math.abs(value - price) / Math.abs(price) * 100 > outlierPercent;
+
+  const base = answers.reduce((closest, answer) =>
+    Math.abs(answer.quote.price - price) < Math.abs(closest.quote.price - price) ? answer : closest
+  ).quote;
+  const previousClose = base.previousClose ?? base.price - base.change;
+  const change = price - previousClose;
+
+  return {
+    ...base,
+    price,
+    change,
+    changePercent: previousClose !== 0 ? change / previousClose * 100 : base.changePercent,
+    consensus: {
+      requested,
+      prices: answers.map(answer => ({
+        provider: answer.provider,
+        price: answer.quote.price,
+        timestamp: answer.quote.timestamp,
+        outlier: isOutlier(answer.quote.price)
+      })),
+      deviation,
+      deviationPercent: price !== 0 ? deviation / Math.abs(price) * 100 : 0,
+      outliers: answers.filter(answer => isOutlier(answer.quote.price)).map(answer => answer.provider)
+    }
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -1,4 +1,6 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -12,7 +14,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, startOfYear } from 'date-fns';
 
@@ -21,73 +24,29 @@ import { subDays, subMonths, subYears, startOfYear } from 'date-fns';
  * Documentation: https://eodhd.com/
  */
 export class EODHDClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    const baseUrl = 'https://eodhd.com/api';
-    super(apiKey, baseUrl, requestTimeout);
-    this.baseUrl = baseUrl;
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true,
+    getMarketNews: true
+  };
+
+  static readonly http: ProviderHttpConfig = { auth: { in: 'query', name: 'api_token' } };
+
+  static readonly displayName = 'EODHD';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://eodhd.com/api', requestTimeout, options);
   }
 
-  // Helper method to make API requests with error handling
-  protected async makeRequest<T>(
-    endpoint: string, 
-    params: Record<string, string | number | boolean | undefined> = {}
-  ): Promise<T> {
-    try {
-      const cleanParams: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          cleanParams[key] = String(value);
-        }
-      }
-      
-      cleanParams.api_token = this.apiKey;
-      
-      const url = new URL(endpoint, this.baseUrl);
-      Object.entries(cleanParams).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
-      });
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
-      try {
-        const response = await fetch(url.toString(), {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'stocksapi-typescript/1.0.0',
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-        }
-        
-        const data = await response.json() as T;
-        return data;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: unknown) {
-      let errorMessage = 'Unknown error';
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          errorMessage = `Request timed out after ${this.requestTimeout}ms`;
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
-      console.error(`EODHD API request failed: ${errorMessage}`, { endpoint, params });
-      throw new Error(`Failed to fetch data from EODHD: ${errorMessage}`);
-    }
-  }
-
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       const quoteData = await this.makeRequest<{
         code: string;
@@ -129,18 +88,18 @@ export class EODHDClient extends BaseStockApiClient {
           quote.volumeMetrics = volumeMetrics;
           quote.performance = performance;
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         }
       }
 
       return quote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
 
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
     
     for (const symbol of symbols) {
@@ -155,7 +114,7 @@ export class EODHDClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       const fundamentalData = await this.makeRequest<{
         General: {
@@ -210,12 +169,12 @@ export class EODHDClient extends BaseStockApiClient {
         eps: highlights.EarningsShare,
       };
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     for (const symbol of symbols) {
@@ -236,7 +195,8 @@ export class EODHDClient extends BaseStockApiClient {
     period: number = 30,
     startDate?: Date,
     endDate: Date = new Date(),
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       const intervalMap: Record<string, string> = {
@@ -279,7 +239,7 @@ export class EODHDClient extends BaseStockApiClient {
         volume: value.volume
       }));
     } catch (error) {
-      console.error(`Failed to fetch time series data for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series data', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -288,7 +248,8 @@ export class EODHDClient extends BaseStockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'annual',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       const fundamentalData = await this.makeRequest<{
@@ -361,12 +322,12 @@ export class EODHDClient extends BaseStockApiClient {
         fiscalYearEnd: '12-31'
       };
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
 
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     try {
       const from = startDate ? startDate.toISOString().split('T')[0] : undefined;
       const to = endDate ? endDate.toISOString().split('T')[0] : undefined;
@@ -390,7 +351,7 @@ export class EODHDClient extends BaseStockApiClient {
         currency: d.currency || 'USD'
       }));
     } catch (error) {
-      console.error(`Failed to fetch dividends for ${symbol}:`, error);
+      this.logger.error('Failed to fetch dividends', { method: 'getDividends', symbol, error });
       throw error;
     }
   }
@@ -402,7 +363,8 @@ export class EODHDClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const from = options?.startDate ? options.startDate.toISOString().split('T')[0] : undefined;
@@ -455,7 +417,7 @@ export class EODHDClient extends BaseStockApiClient {
         };
       });
     } catch (error) {
-      console.error(`Failed to fetch earnings for ${symbol}:`, error);
+      this.logger.error('Failed to fetch earnings', { method: 'getEarnings', symbol, error });
       throw error;
     }
   }
@@ -466,7 +428,8 @@ export class EODHDClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const from = options.startDate ? options.startDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
@@ -511,12 +474,12 @@ export class EODHDClient extends BaseStockApiClient {
         };
       });
     } catch (error) {
-      console.error(`Failed to fetch upcoming earnings:`, error);
+      this.logger.error('Failed to fetch upcoming earnings', { method: 'getUpcomingEarnings', error });
       throw error;
     }
   }
 
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     try {
       const results = await this.makeRequest<Array<{
         Code: string;
@@ -536,12 +499,12 @@ export class EODHDClient extends BaseStockApiClient {
         type: r.Type
       }));
     } catch (error) {
-      console.error(`Failed to search symbols for query "${query}":`, error);
+      this.logger.error('Failed to search symbols', { method: 'searchSymbols', query, error });
       throw error;
     }
   }
 
-  async getMarketNews(symbols: string[] = [], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols: string[] = [], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     try {
       const news = await this.makeRequest<Array<{
         date: string;
@@ -567,7 +530,7 @@ export class EODHDClient extends BaseStockApiClient {
         relatedSymbols: n.symbols ? n.symbols.split(',').map(s => s.trim()) : []
       }));
     } catch (error) {
-      console.error(`Failed to fetch market news:`, error);
+      this.logger.error('Failed to fetch market news', { method: 'getMarketNews', error });
       throw error;
     }
   }
@@ -649,7 +612,7 @@ export class EODHDClient extends BaseStockApiClient {
    * EODHD doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by EODHD');
+    this.logger.warn('Economic events are not supported by EODHD', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -657,7 +620,7 @@ export class EODHDClient extends BaseStockApiClient {
    * EODHD doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by EODHD');
+    this.logger.warn('Economic calendar is not supported by EODHD', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -665,7 +628,7 @@ export class EODHDClient extends BaseStockApiClient {
    * EODHD doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by EODHD');
+    this.logger.warn('Economic indicators are not supported by EODHD', { method: 'getEconomicIndicator' });
     return [];
   }
 }
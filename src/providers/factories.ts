@@ -0,0 +1,35 @@
+import type { BuiltInProviderName } from '../config';
+import type { BaseClientOptions } from '../clients/base-client';
+import type { StockApiClient } from '../types';
+import { AlphaVantageClient } from './alpha-vantage';
+import { PolygonIoClient } from './polygon-io';
+import { FinnhubClient } from './finnhub';
+import { TwelveDataClient } from './twelve-data';
+import { MarketstackClient } from './marketstack';
+import { EODHDClient } from './eodhd';
+import { FinancialModelingPrepClient } from './financial-modeling-prep';
+import { TiingoClient } from './tiingo';
+import { QuoddClient } from './quodd';
+
+/**
+ * Create a provider's client from its API key, request timeout and the client options
+ * StocksAPI builds from the configuration (including a `baseUrl` override)
+ */
+export type ProviderFactory = (apiKey: string, requestTimeout: number, options: BaseClientOptions) => StockApiClient;
+
+/**
+ * How StocksAPI creates the client of every provider this library ships, keyed by the
+ * provider's entry in `StocksApiConfig.providers`. Providers are registered in this order.
+ * Other built-in names only reserve a configuration entry.
+ */
+export const PROVIDER_FACTORIES: Partial<Record<BuiltInProviderName, ProviderFactory>> = {
+  alphaVantage: (apiKey, requestTimeout, options) => new AlphaVantageClient(apiKey, requestTimeout, options),
+  polygon: (apiKey, requestTimeout, options) => new PolygonIoClient(apiKey, requestTimeout, options),
+  finnhub: (apiKey, requestTimeout, options) => new FinnhubClient(apiKey, requestTimeout, options),
+  twelveData: (apiKey, requestTimeout, options) => new TwelveDataClient(apiKey, requestTimeout, options),
+  marketStack: (apiKey, requestTimeout, options) => new MarketstackClient(apiKey, requestTimeout, options),
+  eodhd: (apiKey, requestTimeout, options) => new EODHDClient(apiKey, requestTimeout, options),
+  financialModelingPrep: (apiKey, requestTimeout, options) => new FinancialModelingPrepClient(apiKey, requestTimeout, options),
+  tiingo: (apiKey, requestTimeout, options) => new TiingoClient(apiKey, requestTimeout, options),
+  quodd: (apiKey, requestTimeout, options) => new QuoddClient(apiKey, requestTimeout, options)
+};
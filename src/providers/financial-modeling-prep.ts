@@ -1,4 +1,7 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
+import { SymbolNotFoundError } from '../errors';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -18,7 +21,8 @@ import {
   EconomicCalendarEntry,
   EconomicIndicator,
   EconomicRegion,
-  EconomicEventImportance
+  EconomicEventImportance,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, startOfYear } from 'date-fns';
 
@@ -27,18 +31,39 @@ import { subDays, subMonths, subYears, startOfYear } from 'date-fns';
  * Documentation: https://site.financialmodelingprep.com/
  */
 export class FinancialModelingPrepClient extends BaseStockApiClient {
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    super(apiKey, 'https://financialmodelingprep.com/api/v3', requestTimeout);
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true,
+    getMarketNews: true,
+    getEconomicEvents: { regions: ['US', 'EU', 'UK', 'JP', 'CN', 'CA', 'AU'] },
+    getEconomicCalendar: { regions: ['US', 'EU', 'UK', 'JP', 'CN', 'CA', 'AU'] },
+    getEconomicIndicator: { regions: ['US', 'EU', 'UK', 'JP', 'CN', 'CA', 'AU'] }
+  };
+
+  static readonly http: ProviderHttpConfig = { auth: { in: 'query', name: 'apikey' } };
+
+  static readonly displayName = 'Financial Modeling Prep';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://financialmodelingprep.com/api/v3', requestTimeout, options);
   }
 
   /**
    * Get a stock quote
    */
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/quote/${symbol}`);
 
     if (!data || data.length === 0) {
-      throw new Error(`No quote data found for symbol: ${symbol}`);
+      throw new SymbolNotFoundError(`No quote data found for symbol: ${symbol}`, { provider: 'Financial Modeling Prep', symbol });
     }
 
     const quote = data[0];
@@ -56,7 +81,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
         
         return { ...mappedQuote, volumeMetrics, performance };
       } catch (error) {
-        console.warn(`Could not fetch historical data for ${symbol}:`, error);
+        this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         return mappedQuote;
       }
     }
@@ -67,7 +92,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get multiple stock quotes in a single request
    */
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const symbolList = symbols.join(',');
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/quote/${symbolList}`);
     
@@ -96,11 +121,11 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get company profile information
    */
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/profile/${symbol}`);
 
     if (!data || data.length === 0) {
-      throw new Error(`No profile data found for symbol: ${symbol}`);
+      throw new SymbolNotFoundError(`No profile data found for symbol: ${symbol}`, { provider: 'Financial Modeling Prep', symbol });
     }
 
     return this.mapCompanyProfile(data[0]);
@@ -109,7 +134,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get multiple company profiles
    */
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const symbolList = symbols.join(',');
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/profile/${symbolList}`);
     
@@ -202,7 +227,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get dividend history for a stock
    */
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/historical-price-full/stock_dividend/${symbol}`);
 
     if (!data || !Array.isArray(data)) {
@@ -222,7 +247,8 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     const {
       limit = 4,
@@ -240,7 +266,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
         const futureEarnings = this.mapFutureEarnings(futureData || [], symbol);
         earnings = [...futureEarnings, ...earnings];
       } catch (error) {
-        console.warn('Could not fetch future earnings:', error);
+        this.logger.warn('Could not fetch future earnings', { method: 'getEarnings', error });
       }
     }
 
@@ -265,7 +291,8 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     const {
       limit = 50,
@@ -293,7 +320,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Search for stock symbols
    */
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     const data = await this.makeRequest<any[]>(`${this.baseUrl}/search?query=${encodeURIComponent(query)}`);
 
     if (!data || !Array.isArray(data)) {
@@ -313,7 +340,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get market news
    */
-  async getMarketNews(symbols?: string[], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols?: string[], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     let url = `${this.baseUrl}/stock_news`;
     
     if (symbols && symbols.length > 0) {
@@ -599,7 +626,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
   /**
    * Get economic events
    */
-  async getEconomicEvents(options: EconomicEventOptions = {}): Promise<EconomicEvent[]> {
+  async getEconomicEvents(options: EconomicEventOptions = {}, callOptions?: CallOptions): Promise<EconomicEvent[]> {
     const {
       indicators = [],
       countries = ['US'],
@@ -633,7 +660,7 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
         }
       }
     } catch (error) {
-      console.warn('Could not fetch economic events:', error);
+      this.logger.warn('Could not fetch economic events', { method: 'getEconomicEvents', error });
     }
     
     return events
@@ -650,7 +677,8 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
       endDate?: Date;
       countries?: EconomicRegion[];
       importance?: ('low' | 'medium' | 'high')[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EconomicCalendarEntry[]> {
     const events = await this.getEconomicEvents({
       ...options,
@@ -697,7 +725,8 @@ export class FinancialModelingPrepClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       limit?: number;
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EconomicEvent[]> {
     const {
       startDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), // 1 year ago
@@ -1,5 +1,6 @@
-import { BaseStockApiClient } from '../clients/base-client';
-import axios, { AxiosInstance } from 'axios';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -13,7 +14,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
@@ -22,67 +24,33 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from '
  * Documentation: https://finnhub.io/docs/api
  */
 export class FinnhubClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-  protected readonly httpClient: AxiosInstance;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    const baseUrl = 'https://finnhub.io/api/v1';
-    super(apiKey, baseUrl, requestTimeout);
-    this.baseUrl = baseUrl;
-    
-    // Initialize HTTP client
-    this.httpClient = axios.create({
-      baseURL: this.baseUrl,
-      timeout: requestTimeout,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      params: {
-        token: apiKey
-      }
-    });
-  }
-
-  // Helper method to make API requests with error handling
-  protected async makeRequest<T>(
-    endpoint: string, 
-    params: Record<string, string | number | boolean | undefined> = {}
-  ): Promise<T> {
-    try {
-      // Create a clean params object with only defined values
-      const cleanParams: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          cleanParams[key] = String(value);
-        }
-      }
-      
-      const response = await this.httpClient.get<T>(endpoint, {
-        params: cleanParams
-      });
-      
-      return response.data;
-    } catch (error: unknown) {
-      let errorMessage = 'Unknown error';
-      
-      if (axios.isAxiosError(error)) {
-        errorMessage = error.response?.data?.error || error.message;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      
-      console.error(`Finnhub API request failed: ${errorMessage}`, { 
-        endpoint, 
-        params 
-      });
-      
-      throw new Error(`Failed to fetch data from Finnhub: ${errorMessage}`);
-    }
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true,
+    getMarketNews: true
+  };
+
+  static readonly http: ProviderHttpConfig = {
+    auth: { in: 'query', name: 'token' },
+    headers: { 'Content-Type': 'application/json' }
+  };
+
+  static readonly displayName = 'Finnhub';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://finnhub.io/api/v1', requestTimeout, options);
   }
 
   // Stock data methods
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       // Get current quote
       const quoteData = await this.makeRequest<{
@@ -136,18 +104,18 @@ export class FinnhubClient extends BaseStockApiClient {
           quote.volumeMetrics = volumeMetrics;
           quote.performance = performance;
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         }
       }
 
       return quote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
 
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
     
     for (const symbol of symbols) {
@@ -170,7 +138,7 @@ export class FinnhubClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       const profile = await this.makeRequest<{
         name: string;
@@ -206,12 +174,12 @@ export class FinnhubClient extends BaseStockApiClient {
       
       return companyProfile;
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     for (const symbol of symbols) {
@@ -240,7 +208,8 @@ export class FinnhubClient extends BaseStockApiClient {
     period: number = 30,
     startDate?: Date,
     endDate: Date = new Date(),
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       // Map our interval to Finnhub's resolution
@@ -305,7 +274,7 @@ export class FinnhubClient extends BaseStockApiClient {
 
       return timeSeries;
     } catch (error) {
-      console.error(`Failed to fetch time series data for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series data', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -315,7 +284,8 @@ export class FinnhubClient extends BaseStockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'annual',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       const metrics = await this.makeRequest<{
@@ -359,12 +329,12 @@ export class FinnhubClient extends BaseStockApiClient {
         fiscalYearEnd: '12-31' // Default, can be overridden if needed
       };
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
 
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     try {
       const from = startDate ? Math.floor(startDate.getTime() / 1000) : 0;
       const to = endDate ? Math.floor(endDate.getTime() / 1000) : Math.floor(Date.now() / 1000);
@@ -395,7 +365,7 @@ export class FinnhubClient extends BaseStockApiClient {
           currency: d.currency || 'USD'
         }));
     } catch (error) {
-      console.error(`Failed to fetch dividends for ${symbol}:`, error);
+      this.logger.error('Failed to fetch dividends', { method: 'getDividends', symbol, error });
       throw error;
     }
   }
@@ -407,7 +377,8 @@ export class FinnhubClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const limit = options?.limit || 4;
@@ -451,7 +422,7 @@ export class FinnhubClient extends BaseStockApiClient {
         return earningsReport;
       });
     } catch (error) {
-      console.error(`Failed to fetch earnings for ${symbol}:`, error);
+      this.logger.error('Failed to fetch earnings', { method: 'getEarnings', symbol, error });
       throw error;
     }
   }
@@ -462,7 +433,8 @@ export class FinnhubClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       // Set default values for required parameters
@@ -530,13 +502,13 @@ export class FinnhubClient extends BaseStockApiClient {
         return earningsReport;
       });
     } catch (error) {
-      console.error('Failed to fetch upcoming earnings:', error);
+      this.logger.error('Failed to fetch upcoming earnings', { method: 'getUpcomingEarnings', error });
       throw error;
     }
   }
 
   // Market data methods
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     try {
       const results = await this.makeRequest<{
         result: Array<{
@@ -557,12 +529,12 @@ export class FinnhubClient extends BaseStockApiClient {
         type: r.type
       }));
     } catch (error) {
-      console.error(`Failed to search symbols for query "${query}":`, error);
+      this.logger.error('Failed to search symbols', { method: 'searchSymbols', query, error });
       throw error;
     }
   }
 
-  async getMarketNews(symbols: string[] = [], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols: string[] = [], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     try {
       const news = await this.makeRequest<Array<{
         category: string;
@@ -575,8 +547,7 @@ export class FinnhubClient extends BaseStockApiClient {
         summary: string;
         url: string;
       }>>('/news', {
-        category: 'general',
-        token: this.apiKey
+        category: 'general'
       });
 
       return news
@@ -599,7 +570,7 @@ export class FinnhubClient extends BaseStockApiClient {
           relatedSymbols: article.related ? article.related.split(',') : []
         }));
     } catch (error) {
-      console.error('Failed to fetch market news:', error);
+      this.logger.error('Failed to fetch market news', { method: 'getMarketNews', error });
       throw error;
     }
   }
@@ -682,7 +653,7 @@ export class FinnhubClient extends BaseStockApiClient {
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -690,7 +661,7 @@ export class FinnhubClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -698,7 +669,7 @@ export class FinnhubClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 }
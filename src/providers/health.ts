@@ -0,0 +1,148 @@
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+import type { Feature } from './registry';
+import { ApiRequestError, NetworkError, ProviderTimeoutError } from '../errors';
+
+/**
+ * Latency percentiles in milliseconds over the most recent requests
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Snapshot of a provider's observed health
+ */
+export interface ProviderHealth {
+  requests: number;
+  successes: number;
+  failures: number;
+  /** Share of successful requests, between 0 and 1 (1 when nothing was sent yet) */
+  successRate: number;
+  latency: LatencyPercentiles;
+  lastError?: string;
+  lastFailureAt?: Date;
+  /** Breaker state for every feature this provider has been called for */
+  circuits: Partial<Record<Feature, CircuitState>>;
+}
+
+/**
+ * Whether an error says the provider is failing rather than the request: a server error,
+ * the provider's own rate limit (429), a timeout, or a request that could not be sent.
+ * Unknown symbols, unsupported data, rejected input and the local rate limiter do not count.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError || error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof ApiRequestError && error.status !== undefined &&
+    (error.status === 429 || error.status >= 500);
+}
+
+/** Number of latency samples kept per provider */
+const LATENCY_SAMPLE_SIZE = 100;
+
+interface ProviderStats {
+  successes: number;
+  failures: number;
+  latencies: number[];
+  lastError?: string;
+  lastFailureAt?: Date;
+  breakers: Partial<Record<Feature, CircuitBreaker>>;
+}
+
+/**
+ * Tracks request outcomes per provider and owns the per-feature circuit breakers
+ */
+export class ProviderHealthTracker {
+  private stats: Record<string, ProviderStats> = {};
+
+  constructor(private readonly breakerOptions: Partial<CircuitBreakerOptions> = {}) {}
+
+  /**
+   * Circuit breaker for a provider feature, created on first use
+   */
+  getBreaker(provider: string, feature: Feature): CircuitBreaker {
+    const stats = this.getStats(provider);
+    if (!stats.breakers[feature]) {
+      stats.breakers[feature] = new CircuitBreaker(this.breakerOptions);
+    }
+    return stats.breakers[feature]!;
+  }
+
+  recordSuccess(provider: string, feature: Feature, latencyMs: number): void {
+    const stats = this.getStats(provider);
+    stats.successes++;
+    this.addLatency(stats, latencyMs);
+    this.getBreaker(provider, feature).recordSuccess();
+  }
+
+  /**
+   * Count a failed request. Only failures of the provider itself (see isProviderFailure)
+   * count toward opening the circuit; others give back the breaker's trial slot.
+   */
+  recordFailure(provider: string, feature: Feature, latencyMs: number, error: unknown): void {
+    const stats = this.getStats(provider);
+    stats.failures++;
+    stats.lastError = error instanceof Error ? error.message : String(error);
+    stats.lastFailureAt = new Date();
+    this.addLatency(stats, latencyMs);
+    const breaker = this.getBreaker(provider, feature);
+    if (isProviderFailure(error)) {
+      breaker.recordFailure();
+    } else {
+      breaker.release();
+    }
+  }
+
+  getHealth(provider: string): ProviderHealth {
+    const stats = this.getStats(provider);
+    const requests = stats.successes + stats.failures;
+    const circuits: Partial<Record<Feature, CircuitState>> = {};
+    for (const [feature, breaker] of Object.entries(stats.breakers)) {
+      circuits[feature as Feature] = breaker!.state;
+    }
+
+    return {
+      requests,
+      successes: stats.successes,
+      failures: stats.failures,
+      successRate: requests > 0 ? stats.successes / requests : 1,
+      latency: {
+        p50: percentile(stats.latencies, 50),
+        p90: percentile(stats.latencies, 90),
+        p99: percentile(stats.latencies, 99)
+      },
+      lastError: stats.lastError,
+      lastFailureAt: stats.lastFailureAt,
+      circuits
+    };
+  }
+
+  private getStats(provider: string): ProviderStats {
+    if (!this.stats[provider]) {
+      this.stats[provider] = { successes: 0, failures: 0, latencies: [], breakers: {} };
+    }
+    return this.stats[provider];
+  }
+
+  private addLatency(stats: ProviderStats, latencyMs: number): void {
+    stats.latencies.push(latencyMs);
+    if (stats.latencies.length > LATENCY_SAMPLE_SIZE) {
+      stats.latencies.shift();
+    }
+  }
+}
+
+/**
+ * Nearest-rank percentile (0 for an empty sample)
+ */
+function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
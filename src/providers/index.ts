@@ -1,4 +1,10 @@
 export * from './registry';
+export * from './circuit-breaker';
+export * from './health';
+export * from './routing';
+export * from './consensus';
+export * from './merge';
+export * from './factories';
 export * from './alpha-vantage';
 export * from './polygon-io';
 export * from './finnhub';
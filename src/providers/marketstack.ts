@@ -1,4 +1,7 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
+import { SymbolNotFoundError } from '../errors';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -12,7 +15,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
@@ -21,80 +25,27 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from '
  * Documentation: https://marketstack.com/documentation
  */
 export class MarketstackClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    const baseUrl = 'http://api.marketstack.com/v1';
-    super(apiKey, baseUrl, requestTimeout);
-    this.baseUrl = baseUrl;
-  }
-
-  // Helper method to make API requests with error handling
-  protected async makeRequest<T>(
-    endpoint: string, 
-    params: Record<string, string | number | boolean | undefined> = {}
-  ): Promise<T> {
-    try {
-      // Create a clean params object with only defined values
-      const cleanParams: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          cleanParams[key] = String(value);
-        }
-      }
-      
-      // Add API key to all requests
-      cleanParams.access_key = this.apiKey;
-      
-      const url = new URL(endpoint, this.baseUrl);
-      Object.entries(cleanParams).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
-      });
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
-      try {
-        const response = await fetch(url.toString(), {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'stocksapi-typescript/1.0.0',
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-        }
-        
-        const data = await response.json() as T;
-        return data;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: unknown) {
-      let errorMessage = 'Unknown error';
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          errorMessage = `Request timed out after ${this.requestTimeout}ms`;
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
-      console.error(`Marketstack API request failed: ${errorMessage}`, { 
-        endpoint, 
-        params 
-      });
-      
-      throw new Error(`Failed to fetch data from Marketstack: ${errorMessage}`);
-    }
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1d', 'daily'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    searchSymbols: true
+  };
+
+  static readonly http: ProviderHttpConfig = { auth: { in: 'query', name: 'access_key' } };
+
+  static readonly displayName = 'Marketstack';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'http://api.marketstack.com/v1', requestTimeout, options);
   }
 
   // Stock data methods
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       // Get current quote
       const quoteData = await this.makeRequest<{
@@ -159,18 +110,18 @@ export class MarketstackClient extends BaseStockApiClient {
           quote.volumeMetrics = volumeMetrics;
           quote.performance = performance;
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         }
       }
 
       return quote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
 
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
     
     for (const symbol of symbols) {
@@ -193,7 +144,7 @@ export class MarketstackClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       // Marketstack doesn't have a dedicated company profile endpoint
       // We'll use the ticker endpoint to get basic information
@@ -215,7 +166,7 @@ export class MarketstackClient extends BaseStockApiClient {
       // Get the first result from the data array
       const tickerData = tickerResponse.data?.[0];
       if (!tickerData) {
-        throw new Error(`No ticker data found for symbol: ${symbol}`);
+        throw new SymbolNotFoundError(`No ticker data found for symbol: ${symbol}`, { provider: 'Marketstack', symbol });
       }
 
       // For more detailed company information, we'd need to use a different endpoint
@@ -231,12 +182,12 @@ export class MarketstackClient extends BaseStockApiClient {
       
       return companyProfile;
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     for (const symbol of symbols) {
@@ -265,7 +216,8 @@ export class MarketstackClient extends BaseStockApiClient {
     period: number = 30,
     startDate?: Date,
     endDate: Date = new Date(),
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       // Map our interval to Marketstack's format
@@ -344,7 +296,7 @@ export class MarketstackClient extends BaseStockApiClient {
 
       return timeSeries;
     } catch (error) {
-      console.error(`Failed to fetch time series data for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series data', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -354,7 +306,8 @@ export class MarketstackClient extends BaseStockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'annual',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       // Marketstack doesn't provide comprehensive financial metrics
@@ -386,12 +339,12 @@ export class MarketstackClient extends BaseStockApiClient {
         fiscalYearEnd: '12-31' // Default, can be overridden if needed
       };
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
 
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     try {
       const from = startDate ? startDate.toISOString().split('T')[0] : undefined;
       const to = endDate ? endDate.toISOString().split('T')[0] : undefined;
@@ -427,7 +380,7 @@ export class MarketstackClient extends BaseStockApiClient {
           currency: d.currency || 'USD'
         }));
     } catch (error) {
-      console.error(`Failed to fetch dividends for ${symbol}:`, error);
+      this.logger.error('Failed to fetch dividends', { method: 'getDividends', symbol, error });
       throw error;
     }
   }
@@ -439,11 +392,12 @@ export class MarketstackClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     // Marketstack doesn't provide earnings data
     // Return empty array as this feature is not supported
-    console.warn(`Earnings data is not available for Marketstack provider`);
+    this.logger.warn('Earnings data is not available for Marketstack provider', { method: 'getEarnings' });
     return [];
   }
 
@@ -453,16 +407,17 @@ export class MarketstackClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     // Marketstack doesn't provide earnings data
     // Return empty array as this feature is not supported
-    console.warn(`Upcoming earnings data is not available for Marketstack provider`);
+    this.logger.warn('Upcoming earnings data is not available for Marketstack provider', { method: 'getUpcomingEarnings' });
     return [];
   }
 
   // Market data methods
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     try {
       const results = await this.makeRequest<{
         data: Array<{
@@ -489,15 +444,15 @@ export class MarketstackClient extends BaseStockApiClient {
         type: r.type
       }));
     } catch (error) {
-      console.error(`Failed to search symbols for query "${query}":`, error);
+      this.logger.error('Failed to search symbols', { method: 'searchSymbols', query, error });
       throw error;
     }
   }
 
-  async getMarketNews(symbols: string[] = [], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols: string[] = [], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     // Marketstack doesn't provide news data
     // Return empty array as this feature is not supported
-    console.warn(`News data is not available for Marketstack provider`);
+    this.logger.warn('News data is not available for Marketstack provider', { method: 'getMarketNews' });
     return [];
   }
 
@@ -579,7 +534,7 @@ export class MarketstackClient extends BaseStockApiClient {
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -587,7 +542,7 @@ export class MarketstackClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -595,7 +550,7 @@ export class MarketstackClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 } 
\ No newline at end of file
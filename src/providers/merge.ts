@@ -0,0 +1,128 @@
+import type { ProviderName } from '../config';
+import type { CompanyProfile, FinancialMetrics } from '../types';
+
+/**
+ * Methods whose records can be merged field by field across providers
+ */
+export type MergeMethod = 'getCompanyProfile' | 'getFinancialMetrics';
+
+/**
+ * Providers whose value wins for a field, best first, e.g. `{ sector: ['eodhd'] }`.
+ * Providers not listed follow in routing order.
+ */
+export type FieldPrecedence = Partial<Record<string, ProviderName[]>>;
+
+/**
+ * Field-level merge settings for StocksAPI
+ */
+export interface MergeConfig {
+  /** Methods to merge (default: both `getCompanyProfile` and `getFinancialMetrics`) */
+  methods?: MergeMethod[];
+  /** Which provider's value to keep when several have one */
+  precedence?: FieldPrecedence;
+}
+
+/**
+ * A record and the provider it came from
+ */
+export interface ProviderRecord<T> {
+  provider: ProviderName;
+  record: T;
+}
+
+/**
+ * A merged record and the provider each of its fields came from
+ */
+export interface MergedRecord<T> {
+  record: T;
+  sources: Partial<Record<keyof T, ProviderName>>;
+}
+
+function fieldsOf<T>(fields: Record<keyof T, true>): (keyof T)[] {
+  return Object.keys(fields) as (keyof T)[];
+}
+
+/** Every field of a company profile, so a merge knows when nothing is left to fill */
+export const COMPANY_PROFILE_FIELDS = fieldsOf<CompanyProfile>({
+  symbol: true, name: true, description: true, exchange: true, currency: true, sector: true,
+  industry: true, website: true, logo: true, marketCap: true, employees: true, ipoDate: true,
+  sharesOutstanding: true, floatShares: true, lastUpdated: true, beta: true, dividendPerShare: true,
+  dividendYield: true, peRatio: true, eps: true
+});
+
+/** Every field of a set of financial metrics, so a merge knows when nothing is left to fill */
+export const FINANCIAL_METRICS_FIELDS = fieldsOf<FinancialMetrics>({
+  symbol: true, asOfDate: true, marketCap: true, enterpriseValue: true, peRatio: true,
+  forwardPERatio: true, pegRatio: true, eps: true, priceToBookRatio: true, evToEbitda: true,
+  evToRevenue: true, roe: true, revenue: true, grossProfit: true, operatingIncome: true,
+  netIncome: true, ebitda: true, grossMargin: true, operatingMargin: true, profitMargin: true,
+  ebitdaMargin: true, totalDebt: true, totalEquity: true, currentRatio: true, quickRatio: true,
+  debtToEquity: true, operatingCashFlow: true, freeCashFlow: true, freeCashFlowPerShare: true,
+  returnOnEquity: true, returnOnAssets: true, returnOnCapitalEmployed: true, revenueGrowthYOY: true,
+  revenueGrowthQOQ: true, epsGrowthYOY: true, epsGrowthQOQ: true, dividendYield: true,
+  dividendPerShare: true, dividendPayoutRatio: true, currency: true, beta: true,
+  fiftyTwoWeekHigh: true, fiftyTwoWeekLow: true, sharesOutstanding: true, floatShares: true,
+  reportPeriod: true, fiscalYearEnd: true
+});
+
+/**
+ * Whether a field has no usable value: undefined, null, an empty string, NaN or an invalid date
+ */
+export function isMissingValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' ||
+    (typeof value === 'number' && Number.isNaN(value)) ||
+    (value instanceof Date && Number.isNaN(value.getTime()));
+}
+
+/**
+ * Merge records field by field: each field takes the value of the provider ranked
+ * highest for it among those that have one
+ * @param answers Records in routing order
+ */
+export function mergeRecords<T extends object>(answers: ProviderRecord<T>[], precedence: FieldPrecedence = {}): MergedRecord<T> {
+  const record = {} as T;
+  const sources: Partial<Record<keyof T, ProviderName>> = {};
+  const fields = new Set(answers.flatMap(answer => Object.keys(answer.record) as (keyof T)[]));
+
+  for (const field of fields) {
+    const best = rankFor(field as string, answers.map(answer => answer.provider), precedence)
+      .map(provider => answers.find(answer => answer.provider === provider) as ProviderRecord<T>)
+      .find(answer => !isMissingValue(answer.record[field]));
+    if (best) {
+      record[field] = best.record[field];
+      sources[field] = best.provider;
+    }
+  }
+  return { record, sources };
+}
+
+/**
+ * Whether asking further providers could still change a merged record: some field is missing,
+ * or a provider not asked yet ranks above the one a field's value came from
+ * @param remaining Providers not asked yet
+ */
+export function canImprove<T>(
+  merged: MergedRecord<T>,
+  fields: readonly (keyof T)[],
+  remaining: ProviderName[],
+  precedence: FieldPrecedence = {}
+): boolean {
+  if (remaining.length === 0) {
+    return false;
+  }
+  return fields.some(field => {
+    const source = merged.sources[field];
+    if (!source) {
+      return true;
+    }
+    const preferred = precedence[field as string] || [];
+    const rank = preferred.includes(source) ? preferred.indexOf(source) : preferred.length;
+    return preferred.slice(0, rank).some(provider => remaining.includes(provider));
+  });
+}
+
+// Providers in the order a field takes their values: the listed ones first, then routing order
+function rankFor(field: string, providers: ProviderName[], precedence: FieldPrecedence): ProviderName[] {
+  const preferred = (precedence[field] || []).filter(provider => providers.includes(provider));
+  return [...preferred, ...providers.filter(provider => !preferred.includes(provider))];
+}
@@ -1,4 +1,7 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
+import { NotSupportedError, SymbolNotFoundError, withErrorContext } from '../errors';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -10,7 +13,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
@@ -19,19 +23,28 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from '
  * Documentation: https://polygon.io/docs/stocks
  */
 export class PolygonIoClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-  protected readonly restApiKey: string;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    super(apiKey, 'https://api.polygon.io', requestTimeout);
-    this.restApiKey = apiKey;
-    this.baseUrl = 'https://api.polygon.io';
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getEarnings: true,
+    getUpcomingEarnings: true
+  };
+
+  static readonly http: ProviderHttpConfig = { auth: { in: 'query', name: 'apiKey' } };
+
+  static readonly displayName = 'Polygon.io';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://api.polygon.io', requestTimeout, options);
   }
 
   /**
    * Get a stock quote
    */
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     // Get the current quote first
     const data = await this.makeRequest<{
       results?: {
@@ -46,12 +59,11 @@ export class PolygonIoClient extends BaseStockApiClient {
         n?: number;
       }[];
     }>(`${this.baseUrl}/v2/aggs/ticker/${symbol}/prev`, {
-      adjusted: 'true',
-      apiKey: this.restApiKey
+      adjusted: 'true'
     });
 
     if (!data?.results?.length) {
-      throw new Error(`No quote data found for symbol: ${symbol}`);
+      throw new SymbolNotFoundError(`No quote data found for symbol: ${symbol}`, { provider: 'Polygon.io', symbol });
     }
 
     const result = data.results[0];
@@ -107,7 +119,7 @@ export class PolygonIoClient extends BaseStockApiClient {
           performance
         };
       } catch (error) {
-        console.warn(`Could not fetch historical data for ${symbol}:`, error);
+        this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         // Return basic quote if historical data fetch fails
         return mappedQuote;
       }
@@ -203,7 +215,7 @@ export class PolygonIoClient extends BaseStockApiClient {
   }
 
   // Implement other required methods with stubs
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
 
     for (const symbol of symbols) {
@@ -226,7 +238,7 @@ export class PolygonIoClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       const response = await this.makeRequest<{
         results?: {
@@ -252,7 +264,7 @@ export class PolygonIoClient extends BaseStockApiClient {
       }>(`/v3/reference/tickers/${symbol}`);
 
       if (!response.results) {
-        throw new Error('No company profile data found');
+        throw new SymbolNotFoundError('No company profile data found', { provider: 'Polygon.io', symbol });
       }
 
       const result = response.results;
@@ -281,11 +293,11 @@ export class PolygonIoClient extends BaseStockApiClient {
         eps: undefined // Not available in this endpoint
       };
     } catch (error) {
-      throw new Error(`Failed to fetch company profile for ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext(error, `Failed to fetch company profile for ${symbol}`, 'Polygon.io');
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     // Process in batches to avoid hitting rate limits
@@ -345,7 +357,7 @@ export class PolygonIoClient extends BaseStockApiClient {
       // Get the interval configuration
       const intervalConfig = intervalMap[interval];
       if (!intervalConfig) {
-        throw new Error(`Unsupported interval: ${interval}`);
+        throw new NotSupportedError(`Unsupported interval: ${interval}`, { provider: 'Polygon.io', method: 'getTimeSeries' });
       }
 
       // Calculate the date range based on the period and interval
@@ -422,22 +434,27 @@ export class PolygonIoClient extends BaseStockApiClient {
         tradeCount: bar.n
       }));
     } catch (error) {
-      throw new Error(`Failed to fetch time series for ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext(error, `Failed to fetch time series for ${symbol}`, 'Polygon.io');
     }
   }
 
   async getFinancialMetrics(symbol: string): Promise<FinancialMetrics> {
-    // Implementation for getFinancialMetrics
-    throw new Error('Method not implemented.');
+    throw new NotSupportedError('Financial metrics are not supported by Polygon.io', {
+      provider: 'Polygon.io',
+      method: 'getFinancialMetrics'
+    });
   }
 
   async getDividends(
     symbol: string, 
     startDate?: Date, 
-    endDate?: Date
+    endDate?: Date,
+    callOptions?: CallOptions
   ): Promise<Dividend[]> {
-    // Implementation for getDividends
-    throw new Error('Method not implemented.');
+    throw new NotSupportedError('Dividends are not supported by Polygon.io', {
+      provider: 'Polygon.io',
+      method: 'getDividends'
+    });
   }
 
   async getEarnings(
@@ -447,7 +464,8 @@ export class PolygonIoClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       // Parse options
@@ -533,7 +551,7 @@ export class PolygonIoClient extends BaseStockApiClient {
           };
         });
     } catch (error) {
-      throw new Error(`Failed to fetch earnings for ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext(error, `Failed to fetch earnings for ${symbol}`, 'Polygon.io');
     }
   }
 
@@ -566,7 +584,8 @@ export class PolygonIoClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const {
@@ -635,28 +654,33 @@ export class PolygonIoClient extends BaseStockApiClient {
         };
       });
     } catch (error) {
-      throw new Error(`Failed to fetch upcoming earnings: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext(error, 'Failed to fetch upcoming earnings', 'Polygon.io');
     }
   }
 
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
-    // Implementation for searchSymbols
-    throw new Error('Method not implemented.');
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
+    throw new NotSupportedError('Symbol search is not supported by Polygon.io', {
+      provider: 'Polygon.io',
+      method: 'searchSymbols'
+    });
   }
 
   async getMarketNews(
     symbols: string[] = [], 
-    limit: number = 10
+    limit: number = 10,
+    callOptions?: CallOptions
   ): Promise<NewsArticle[]> {
-    // Implementation for getMarketNews
-    throw new Error('Method not implemented.');
+    throw new NotSupportedError('Market news is not supported by Polygon.io', {
+      provider: 'Polygon.io',
+      method: 'getMarketNews'
+    });
   }
 
   /**
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -664,7 +688,7 @@ export class PolygonIoClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -672,7 +696,7 @@ export class PolygonIoClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 }
@@ -1,5 +1,6 @@
-import { BaseStockApiClient } from '../clients/base-client';
-import axios, { AxiosInstance } from 'axios';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -13,7 +14,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear, format } from 'date-fns';
 
@@ -25,65 +27,33 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear, format
  * historical data, fundamentals, and news across multiple asset classes.
  */
 export class QuoddClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-  protected readonly httpClient: AxiosInstance;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    const baseUrl = 'https://api.quodd.com/v1';
-    super(apiKey, baseUrl, requestTimeout);
-    this.baseUrl = baseUrl;
-    
-    // Initialize HTTP client
-    this.httpClient = axios.create({
-      baseURL: this.baseUrl,
-      timeout: requestTimeout,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      }
-    });
-  }
-
-  // Helper method to make API requests with error handling
-  protected async makeRequest<T>(
-    endpoint: string, 
-    params: Record<string, string | number | boolean | undefined> = {}
-  ): Promise<T> {
-    try {
-      // Create a clean params object with only defined values
-      const cleanParams: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          cleanParams[key] = String(value);
-        }
-      }
-      
-      const response = await this.httpClient.get<T>(endpoint, {
-        params: cleanParams
-      });
-      
-      return response.data;
-    } catch (error: unknown) {
-      let errorMessage = 'Unknown error';
-      
-      if (axios.isAxiosError(error)) {
-        errorMessage = error.response?.data?.message || error.response?.data?.error || error.message;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      
-      console.error(`Quodd API request failed: ${errorMessage}`, { 
-        endpoint, 
-        params 
-      });
-      
-      throw new Error(`Failed to fetch data from Quodd: ${errorMessage}`);
-    }
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true,
+    getMarketNews: true
+  };
+
+  static readonly http: ProviderHttpConfig = {
+    auth: { in: 'header', name: 'Authorization', prefix: 'Bearer ' },
+    headers: { 'Content-Type': 'application/json' }
+  };
+
+  static readonly displayName = 'Quodd';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://api.quodd.com/v1', requestTimeout, options);
   }
 
   // Stock data methods
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       // Get current quote
       const quoteData = await this.makeRequest<{
@@ -145,18 +115,18 @@ export class QuoddClient extends BaseStockApiClient {
           quote.volumeMetrics = volumeMetrics;
           quote.performance = performance;
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         }
       }
 
       return quote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
 
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
     
     try {
@@ -230,7 +200,7 @@ export class QuoddClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       const profile = await this.makeRequest<{
         symbol: string;
@@ -279,12 +249,12 @@ export class QuoddClient extends BaseStockApiClient {
 
       return companyProfile;
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     // Process each symbol individually
@@ -314,7 +284,8 @@ export class QuoddClient extends BaseStockApiClient {
     period?: number,
     startDate?: Date,
     endDate?: Date,
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       // Map interval to Quodd's format
@@ -363,7 +334,7 @@ export class QuoddClient extends BaseStockApiClient {
         volume: point.volume
       }));
     } catch (error) {
-      console.error(`Failed to fetch time series for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -372,7 +343,8 @@ export class QuoddClient extends BaseStockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'ttm',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       const params: Record<string, string | undefined> = {
@@ -487,12 +459,12 @@ export class QuoddClient extends BaseStockApiClient {
 
       return financialMetrics;
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
 
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     try {
       const params: Record<string, string | undefined> = {
         symbol
@@ -527,7 +499,7 @@ export class QuoddClient extends BaseStockApiClient {
         currency: div.currency
       }));
     } catch (error) {
-      console.error(`Failed to fetch dividends for ${symbol}:`, error);
+      this.logger.error('Failed to fetch dividends', { method: 'getDividends', symbol, error });
       throw error;
     }
   }
@@ -539,7 +511,8 @@ export class QuoddClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const params: Record<string, string | number | undefined> = {
@@ -597,7 +570,7 @@ export class QuoddClient extends BaseStockApiClient {
         currency: earning.currency
       }));
     } catch (error) {
-      console.error(`Failed to fetch earnings for ${symbol}:`, error);
+      this.logger.error('Failed to fetch earnings', { method: 'getEarnings', symbol, error });
       throw error;
     }
   }
@@ -608,7 +581,8 @@ export class QuoddClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const params: Record<string, string | number | undefined> = {
@@ -647,12 +621,12 @@ export class QuoddClient extends BaseStockApiClient {
         currency: earning.currency
       }));
     } catch (error) {
-      console.error('Failed to fetch upcoming earnings:', error);
+      this.logger.error('Failed to fetch upcoming earnings', { method: 'getUpcomingEarnings', error });
       throw error;
     }
   }
 
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     try {
       const response = await this.makeRequest<{
         results: Array<{
@@ -676,12 +650,12 @@ export class QuoddClient extends BaseStockApiClient {
         type: result.type
       }));
     } catch (error) {
-      console.error('Failed to search symbols:', error);
+      this.logger.error('Failed to search symbols', { method: 'searchSymbols', error });
       throw error;
     }
   }
 
-  async getMarketNews(symbols?: string[], limit: number = 50): Promise<NewsArticle[]> {
+  async getMarketNews(symbols?: string[], limit: number = 50, callOptions?: CallOptions): Promise<NewsArticle[]> {
     try {
       const params: Record<string, string | number | undefined> = {
         limit
@@ -715,7 +689,7 @@ export class QuoddClient extends BaseStockApiClient {
         relatedSymbols: article.related_symbols
       }));
     } catch (error) {
-      console.error('Failed to fetch market news:', error);
+      this.logger.error('Failed to fetch market news', { method: 'getMarketNews', error });
       throw error;
     }
   }
@@ -798,7 +772,7 @@ export class QuoddClient extends BaseStockApiClient {
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -806,7 +780,7 @@ export class QuoddClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -814,7 +788,7 @@ export class QuoddClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 }
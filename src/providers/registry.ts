@@ -40,26 +40,88 @@ export type Feature =
   | 'news'
   | 'economic';
   
-import { StocksApiConfig, ProviderName, getEnabledProviders, ApiProviderConfig } from '../config';
+import { StocksApiConfig, ProviderName, ApiProviderConfig } from '../config';
+import { ProviderHealthTracker, ProviderHealth } from './health';
+import { AllProvidersFailedError, ProviderAttempt, RequestAbortedError, createProviderAttempt } from '../errors';
+import { runWithCallOptions, throwIfAborted } from '../clients/call-options';
+import { getCallTrace } from '../clients/call-trace';
+import {
+  CapabilityMethod,
+  CapabilityReport,
+  CapabilityRequirement,
+  ProviderCapabilities,
+  describeCapabilities,
+  getClientCapabilities,
+  supportsCapability
+} from '../clients/capabilities';
+import { StocksApiEmitter } from '../events';
+import { Logger, silentLogger } from '../logger';
+import { UsageTracker } from '../clients/usage-tracker';
+import { RoutingCandidate, getRoutingStrategy, orderProviders } from './routing';
+import { FieldPrecedence, MergedRecord, ProviderRecord, canImprove, mergeRecords } from './merge';
+/**
+ * Options for ProviderRegistry.withFallback
+ */
+export interface FallbackOptions {
+  /** Return an empty result when no provider had data but at least one answered */
+  allowEmpty?: boolean;
+  /** Method (and interval or region) the callback needs */
+  capability?: CapabilityRequirement;
+  /** Ask the next provider as well after this many milliseconds without an answer */
+  hedgeMs?: number;
+}
+
+type HedgedOutcome<T> =
+  | { provider: ProviderName; result?: T | null; attempt: ProviderAttempt; aborted?: undefined }
+  | { provider: ProviderName; aborted: RequestAbortedError };
+
   /**
    * Provider registry manages multiple API providers and handles fallback logic
    */
   export class ProviderRegistry {
     private providers: Partial<Record<ProviderName, StockApiClient>> = {};
     private providerPriorities: Partial<Record<ProviderName, number>> = {};
+    private providerWeights: Partial<Record<ProviderName, number>> = {};
     private providerFeatures: Partial<Record<ProviderName, Record<Feature, boolean>>> = {};
+    private providerCapabilities: Partial<Record<ProviderName, ProviderCapabilities>> = {};
     private config: StocksApiConfig;
+    private health: ProviderHealthTracker;
+    private events: StocksApiEmitter;
+    private logger: Logger;
+    private usage?: UsageTracker;
   
-    constructor(config: StocksApiConfig) {
+    constructor(
+      config: StocksApiConfig,
+      events: StocksApiEmitter = new StocksApiEmitter(),
+      logger: Logger = silentLogger,
+      usage?: UsageTracker
+    ) {
       this.config = config;
+      this.health = new ProviderHealthTracker(config.circuitBreaker);
+      this.events = events;
+      this.logger = logger;
+      this.usage = usage;
     }
   
     /**
-     * Register a new provider
+     * Register a new provider.
+     * Declared `capabilities` replace the ones its client class declares.
      */
-    registerProvider(name: ProviderName, provider: StockApiClient, priority: number = 10, config?: ApiProviderConfig): void {
+    registerProvider(
+      name: ProviderName,
+      provider: StockApiClient,
+      priority: number = 10,
+      config?: ApiProviderConfig,
+      capabilities?: ProviderCapabilities
+    ): void {
       this.providers[name] = provider;
       this.providerPriorities[name] = priority;
+      this.providerWeights[name] = config?.weight ?? 1;
+      if (capabilities) {
+        this.providerCapabilities[name] = capabilities;
+      } else {
+        delete this.providerCapabilities[name];
+      }
       
       // Initialize provider features based on config or default to all true
       if (config) {
@@ -125,71 +187,376 @@ import { StocksApiConfig, ProviderName, getEnabledProviders, ApiProviderConfig }
     /**
      * Get the best available provider for a specific feature
      */
-    private getBestProviderForFeature(feature: Feature): StockApiClient | null {
-      const enabledProviders = getEnabledProviders(this.config);
+    getBestProviderForFeature(feature: Feature): StockApiClient | null {
+      const [best] = this.getProvidersForFeature(feature);
+      return best || null;
+    }
+  
+    /**
+     * Execute a function with fallback to other providers if the primary fails.
+     * Providers whose circuit is open for this feature are skipped without being called.
+     * @param options.allowEmpty Return an empty result (e.g. `[]`) when no provider had data
+     * but at least one answered, instead of treating it as a failure
+     * @param options.capability Method (and interval or region) the callback needs; providers
+     * whose declared capabilities do not cover it are skipped without being called
+     * @param options.hedgeMs Ask the next provider as well when no answer arrived within this
+     * many milliseconds (default: the `hedging` config, when it covers the feature)
+     * @throws {AllProvidersFailedError} With every provider's attempt if none could serve the request
+     * @throws {RequestAbortedError} If the call is aborted; the remaining providers are not tried
+     */
+    async withFallback<T>(
+      feature: Feature,
+      callback: (provider: StockApiClient) => Promise<T | null | undefined>,
+      options: FallbackOptions = {}
+    ): Promise<T> {
+      const hedgeMs = options.hedgeMs ?? this.getHedgeDelay(feature);
+      if (hedgeMs !== undefined) {
+        return this.withHedging(feature, callback, options, hedgeMs);
+      }
       
-      for (const providerConfig of enabledProviders) {
-        const provider = this.providers[providerConfig.name];
-        if (provider && this.providerFeatures[providerConfig.name]?.[feature]) {
-          return provider;
+      const attempts: ProviderAttempt[] = [];
+      let emptyResult: T | undefined;
+      
+      for (const name of this.getProviderNamesForFeature(feature)) {
+        throwIfAborted();
+        if (options.capability && !this.supports(name, options.capability)) {
+          continue;
+        }
+        if (!this.isAvailable(name, feature)) {
+          continue;
+        }
+        
+        const { result, attempt } = await this.tryProvider(name, feature, callback);
+        if (!attempt.error && !attempt.empty) {
+          getCallTrace()?.serve(name);
+          return result as T;
+        }
+        attempts.push(attempt);
+        if (emptyResult === undefined && result !== null && result !== undefined) {
+          emptyResult = result;
         }
       }
       
-      return null;
+      if (options.allowEmpty && emptyResult !== undefined) {
+        return emptyResult;
+      }
+  
+      // If we get here, all providers failed
+      throw new AllProvidersFailedError(attempts, { feature });
     }
   
     /**
-     * Execute a function with fallback to other providers if the primary fails
+     * Fallback that does not wait for a slow provider: every `hedgeMs` without an answer,
+     * the next provider is asked as well. A failed or empty answer moves on to the next
+     * provider right away. The first usable result wins and the requests still running are aborted.
      */
-    async withFallback<T>(
+    private async withHedging<T>(
       feature: Feature,
-      callback: (provider: StockApiClient) => Promise<T | null | undefined>
+      callback: (provider: StockApiClient) => Promise<T | null | undefined>,
+      options: FallbackOptions,
+      hedgeMs: number
     ): Promise<T> {
-      const providers = this.getProvidersForFeature(feature);
-  
-      for (const provider of providers) {
-        try {
-          const result = await callback(provider);
-          // Only return if result is truthy and not an empty object
-          if (result !== null && result !== undefined && 
-              (typeof result !== 'object' || Object.keys(result as object).length > 0)) {
-            return result;
+      const attempts: ProviderAttempt[] = [];
+      let emptyResult: T | undefined;
+      const queue = this.getProviderNamesForFeature(feature)
+        .filter(name => !options.capability || this.supports(name, options.capability));
+      const running = new Map<ProviderName, { controller: AbortController; outcome: Promise<HedgedOutcome<T>> }>();
+      
+      // Starts the next provider whose circuit lets a request through, if any is left
+      const startNext = (): ProviderName | undefined => {
+        let name: ProviderName | undefined;
+        while ((name = queue.shift()) !== undefined) {
+          if (!this.isAvailable(name, feature)) {
+            continue;
+          }
+          const provider = name;
+          const controller = new AbortController();
+          const outcome = runWithCallOptions({ signal: controller.signal }, () => this.tryProvider(provider, feature, callback))
+            .then(
+              ({ result, attempt }): HedgedOutcome<T> => ({ provider, result, attempt }),
+              (error: RequestAbortedError): HedgedOutcome<T> => ({ provider, aborted: error })
+            );
+          running.set(provider, { controller, outcome });
+          return provider;
+        }
+        return undefined;
+      };
+      
+      try {
+        throwIfAborted();
+        startNext();
+        while (running.size > 0) {
+          let timeoutId: ReturnType<typeof setTimeout> | undefined;
+          const hedge = queue.length > 0
+            ? [new Promise<'hedge'>(resolve => { timeoutId = setTimeout(() => resolve('hedge'), hedgeMs); })]
+            : [];
+          const settled = await Promise.race([...[...running.values()].map(({ outcome }) => outcome), ...hedge]);
+          clearTimeout(timeoutId);
+          
+          if (settled === 'hedge') {
+            const waitingFor = [...running.keys()];
+            const provider = startNext();
+            if (provider) {
+              this.events.emit('hedge', { feature, provider, waitingFor, delayMs: hedgeMs });
+            }
+            continue;
           }
-        } catch (error) {
-          console.warn(`Provider failed with error:`, error);
-          continue; // Try next provider
+          
+          running.delete(settled.provider);
+          // Only the caller aborts requests still running
+          if (settled.aborted) {
+            throw settled.aborted;
+          }
+          const { result, attempt } = settled;
+          if (!attempt.error && !attempt.empty) {
+            getCallTrace()?.serve(settled.provider);
+            return result as T;
+          }
+          attempts.push(attempt);
+          if (emptyResult === undefined && result !== null && result !== undefined) {
+            emptyResult = result;
+          }
+          startNext();
+        }
+      } finally {
+        for (const { controller } of running.values()) {
+          controller.abort(new RequestAbortedError('Another provider answered first'));
         }
       }
+      
+      if (options.allowEmpty && emptyResult !== undefined) {
+        return emptyResult;
+      }
+      throw new AllProvidersFailedError(attempts, { feature });
+    }
   
-      // If we get here, all providers failed
-      throw new Error('All providers failed');
+    /**
+     * Ask providers in turn and merge their records field by field, moving on while some
+     * field is still missing or a provider not asked yet ranks above the one a field came from
+     * @param options.fields Every field the record can have
+     * @param options.precedence Providers whose value wins for a field
+     * @throws {AllProvidersFailedError} If no provider returned a record
+     * @throws {RequestAbortedError} If the call is aborted; the remaining providers are not tried
+     */
+    async withMerge<T extends object>(
+      feature: Feature,
+      callback: (provider: StockApiClient) => Promise<T | null | undefined>,
+      options: { capability?: CapabilityRequirement; fields: readonly (keyof T)[]; precedence?: FieldPrecedence }
+    ): Promise<MergedRecord<T>> {
+      const attempts: ProviderAttempt[] = [];
+      const answers: ProviderRecord<T>[] = [];
+      let merged: MergedRecord<T> = { record: {} as T, sources: {} };
+      const queue = this.getProviderNamesForFeature(feature)
+        .filter(name => !options.capability || this.supports(name, options.capability));
+      
+      while (answers.length === 0 ? queue.length > 0 : canImprove(merged, options.fields, queue, options.precedence)) {
+        throwIfAborted();
+        const name = queue.shift() as ProviderName;
+        if (!this.isAvailable(name, feature)) {
+          continue;
+        }
+        
+        const { result, attempt } = await this.tryProvider(name, feature, callback);
+        if (!attempt.error && !attempt.empty) {
+          answers.push({ provider: name, record: result as T });
+          merged = mergeRecords(answers, options.precedence);
+        } else {
+          attempts.push(attempt);
+        }
+      }
+      
+      if (answers.length === 0) {
+        throw new AllProvidersFailedError(attempts, { feature });
+      }
+      getCallTrace()?.serve(answers[0].provider, merged.sources as Record<string, string>);
+      return merged;
+    }
+  
+    /**
+     * Hedge delay the config sets for a feature, if it is hedged
+     */
+    private getHedgeDelay(feature: Feature): number | undefined {
+      const hedging = this.config.hedging;
+      if (!hedging) {
+        return undefined;
+      }
+      return (hedging.features || ['realtime']).includes(feature) ? hedging.delayMs : undefined;
     }
   
     /**
-     * Update provider priorities based on configuration
+     * Call a single provider, recording the outcome and latency against its health
+     * and the circuit breaker for the feature
      */
-    private updateProviderPriorities(): void {
-      const enabledProviders = getEnabledProviders(this.config);
-      this.providerPriorities = enabledProviders
-        .sort((a, b) => a.priority - b.priority)
-        .reduce((acc, p) => ({ ...acc, [p.name.toLowerCase() as ProviderName]: p.priority }), {});
+    async callProvider<T>(
+      name: ProviderName,
+      feature: Feature,
+      callback: (provider: StockApiClient) => Promise<T>
+    ): Promise<T> {
+      const outcome = await this.invoke(name, feature, callback);
+      if ('error' in outcome) {
+        throw outcome.error;
+      }
+      return outcome.result;
+    }
+  
+    /**
+     * Call a provider as one step of a chain. A failure or empty result is logged and
+     * reported as a fallback event; the attempt tells how it went.
+     * @throws {RequestAbortedError} If the call is aborted
+     */
+    private async tryProvider<T>(
+      name: ProviderName,
+      feature: Feature,
+      callback: (provider: StockApiClient) => Promise<T | null | undefined>
+    ): Promise<{ result?: T | null; attempt: ProviderAttempt }> {
+      const outcome = await this.invoke(name, feature, callback);
+      const { attempt } = outcome;
+      if ('error' in outcome) {
+        if (outcome.error instanceof RequestAbortedError) {
+          throw outcome.error;
+        }
+        this.logger.warn('Provider failed, trying the next one', { provider: name, feature, error: attempt.error });
+        this.events.emit('fallback', { feature, provider: name, error: attempt.error });
+        return { attempt };
+      }
+      if (attempt.empty) {
+        this.events.emit('fallback', { feature, provider: name });
+      }
+      return { result: outcome.result, attempt };
+    }
+  
+    // Every provider call goes through here, so health, the circuit breaker and the
+    // trace of the current call see each attempt
+    private async invoke<T>(
+      name: ProviderName,
+      feature: Feature,
+      callback: (provider: StockApiClient) => Promise<T>
+    ): Promise<{ result: T; attempt: ProviderAttempt } | { error: unknown; attempt: ProviderAttempt }> {
+      const provider = this.providers[name];
+      if (!provider) {
+        throw new Error(`Provider ${name} is not registered`);
+      }
+      
+      const startedAt = Date.now();
+      try {
+        const result = await callback(provider);
+        const durationMs = Date.now() - startedAt;
+        this.health.recordSuccess(name, feature, durationMs);
+        const attempt = createProviderAttempt(name, durationMs, { empty: isEmptyResult(result) });
+        getCallTrace()?.attempts.push(attempt);
+        return { result, attempt };
+      } catch (error) {
+        const durationMs = Date.now() - startedAt;
+        // A cancelled call says nothing about the provider's health
+        if (error instanceof RequestAbortedError) {
+          this.health.getBreaker(name, feature).release();
+        } else {
+          this.health.recordFailure(name, feature, durationMs, error);
+        }
+        const attempt = createProviderAttempt(name, durationMs, { error });
+        getCallTrace()?.attempts.push(attempt);
+        return { error, attempt };
+      }
+    }
+  
+    /**
+     * Whether the circuit breaker lets a request through to this provider for the feature.
+     * While half-open this reserves the trial slot, so follow it with callProvider.
+     */
+    isAvailable(name: ProviderName, feature: Feature): boolean {
+      return this.health.getBreaker(name, feature).tryAcquire();
+    }
+  
+    /**
+     * Whether a provider has used up all but the configured reserve of a quota window
+     */
+    private isNearlyExhausted(name: ProviderName): boolean {
+      return this.usage?.isNearlyExhausted(name) ?? false;
+    }
+  
+    /**
+     * Whether a provider's declared capabilities cover a request.
+     * Providers that declare nothing are assumed to support everything.
+     */
+    supports(name: ProviderName, requirement: CapabilityRequirement): boolean {
+      const provider = this.providers[name];
+      return provider !== undefined &&
+        supportsCapability(this.providerCapabilities[name] ?? getClientCapabilities(provider), requirement);
+    }
+  
+    /**
+     * What every registered provider can serve, per method
+     */
+    getCapabilities(): Partial<Record<ProviderName, Record<CapabilityMethod, CapabilityReport>>> {
+      const capabilities: Partial<Record<ProviderName, Record<CapabilityMethod, CapabilityReport>>> = {};
+      for (const [name, provider] of Object.entries(this.providers) as [ProviderName, StockApiClient][]) {
+        capabilities[name] = describeCapabilities(this.providerCapabilities[name] ?? getClientCapabilities(provider));
+      }
+      return capabilities;
+    }
+  
+    /**
+     * Health snapshot (success rate, latency percentiles, breaker states) for every registered provider
+     */
+    getProviderHealth(): Partial<Record<ProviderName, ProviderHealth>> {
+      const health: Partial<Record<ProviderName, ProviderHealth>> = {};
+      for (const name of Object.keys(this.providers) as ProviderName[]) {
+        health[name] = this.health.getHealth(name);
+      }
+      return health;
     }
   
     /**
      * Get a list of providers that support a specific feature
      */
     getProvidersForFeature(feature: Feature): StockApiClient[] {
-      return Object.entries(this.providerFeatures)
-        .filter(([_, features]) => {
-          return features?.[feature] === true;
-        })
-        .sort(([aName], [bName]) => (this.providerPriorities[aName as ProviderName] || 0) - (this.providerPriorities[bName as ProviderName] || 0))
-        .map(([name]) => this.providers[name as ProviderName]!)
+      return this.getProviderNamesForFeature(feature)
+        .map(name => this.providers[name])
         .filter((provider): provider is StockApiClient => provider !== undefined);
     }
   
+    /**
+     * Names of the registered providers that serve a feature, in order.
+     * A `routing` entry for the feature in the config replaces the order with its own list;
+     * otherwise providers that support the feature are ordered by the feature's routing
+     * strategy (by priority unless configured), with providers that have nearly used up
+     * a quota window moved behind the others.
+     */
+    getProviderNamesForFeature(feature: Feature): ProviderName[] {
+      const route = this.config.routing?.[feature];
+      if (route) {
+        return route.filter(name => this.providers[name] !== undefined);
+      }
+      
+      const candidates = (Object.entries(this.providerFeatures) as [ProviderName, Record<Feature, boolean> | undefined][])
+        .filter(([name, features]) => {
+          return features?.[feature] === true && this.providers[name] !== undefined;
+        })
+        .map(([name]) => this.getRoutingCandidate(name));
+      
+      return orderProviders(candidates, getRoutingStrategy(this.config.routingStrategy, feature))
+        .sort((aName, bName) => Number(this.isNearlyExhausted(aName)) - Number(this.isNearlyExhausted(bName)));
+    }
+  
+    private getRoutingCandidate(name: ProviderName): RoutingCandidate {
+      const health = this.health.getHealth(name);
+      return {
+        name,
+        priority: this.providerPriorities[name] || 0,
+        weight: this.providerWeights[name] ?? 1,
+        latencyMs: health.requests > 0 ? health.latency.p50 : undefined,
+        remainingShare: this.usage?.getRemainingShare(name)
+      };
+    }
+  
     /**
      * Export the Feature type for use in other modules
      */
     
-  }
\ No newline at end of file
+  }
+
+// Null, undefined and empty objects or arrays count as no data
+function isEmptyResult(result: unknown): boolean {
+  return result === null || result === undefined ||
+    (typeof result === 'object' && Object.keys(result as object).length === 0);
+}
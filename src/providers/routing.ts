@@ -0,0 +1,85 @@
+import type { ProviderName } from '../config';
+import type { Feature } from './registry';
+
+/**
+ * How the registry orders the providers that can serve a feature
+ * - priority: lowest `priority` first (the default)
+ * - latency: lowest median latency observed first; providers without requests yet go first
+ *   so they get measured
+ * - quota: most of their quota left first; providers without a declared quota count as unlimited
+ * - weighted-random: a random order in which providers come first in proportion to their
+ *   `weight`, spreading load across them
+ * Ties are broken by priority.
+ */
+export type RoutingStrategy = 'priority' | 'latency' | 'quota' | 'weighted-random';
+
+/**
+ * Strategy for every feature, or per feature with `default` covering the rest,
+ * e.g. `{ default: 'priority', getQuote: 'latency', historical: 'quota' }`
+ */
+export type RoutingStrategyConfig = RoutingStrategy | Partial<Record<Feature | 'default', RoutingStrategy>>;
+
+/**
+ * What a strategy knows about a provider
+ */
+export interface RoutingCandidate {
+  name: ProviderName;
+  priority: number;
+  /** Relative share of requests under weighted-random */
+  weight: number;
+  /** Median latency in milliseconds, undefined before the first request */
+  latencyMs?: number;
+  /** Smallest share of a quota window left, between 0 and 1; undefined without a quota */
+  remainingShare?: number;
+}
+
+/**
+ * Strategy configured for a feature
+ */
+export function getRoutingStrategy(config: RoutingStrategyConfig | undefined, feature: Feature): RoutingStrategy {
+  if (typeof config === 'string') {
+    return config;
+  }
+  return config?.[feature] || config?.default || 'priority';
+}
+
+/**
+ * Order providers with a strategy
+ * @param random Source of randomness for weighted-random, returning values in [0, 1)
+ */
+export function orderProviders(
+  candidates: RoutingCandidate[],
+  strategy: RoutingStrategy,
+  random: () => number = Math.random
+): ProviderName[] {
+  const byPriority = [...candidates].sort((a, b) => a.priority - b.priority);
+
+  switch (strategy) {
+    case 'latency':
+      return byPriority
+        .sort((a, b) => (a.latencyMs ?? -1) - (b.latencyMs ?? -1))
+        .map(candidate => candidate.name);
+    case 'quota':
+      return byPriority
+        .sort((a, b) => (b.remainingShare ?? 1) - (a.remainingShare ?? 1))
+        .map(candidate => candidate.name);
+    case 'weighted-random':
+      return weightedShuffle(byPriority, random);
+    case 'priority':
+    default:
+      return byPriority.map(candidate => candidate.name);
+  }
+}
+
+// Weighted sampling without replacement: each provider draws random^(1 / weight) and the
+// highest draws go first, so a provider comes first with probability weight / total weight.
+// Providers with a weight of 0 only come after all the others.
+function weightedShuffle(candidates: RoutingCandidate[], random: () => number): ProviderName[] {
+  return candidates
+    .map(candidate => ({
+      name: candidate.name,
+      draw: candidate.weight > 0 ? Math.pow(random(), 1 / candidate.weight) : -1
+    }))
+    .sort((a, b) => b.draw - a.draw)
+    .map(candidate => candidate.name);
+}
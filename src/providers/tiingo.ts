@@ -1,4 +1,7 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
+import { SymbolNotFoundError } from '../errors';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -12,7 +15,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
@@ -21,67 +25,32 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from '
  * Documentation: https://api.tiingo.com/
  */
 export class TiingoClient extends BaseStockApiClient {
-  private readonly headers: Record<string, string>;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    super(apiKey, 'https://api.tiingo.com', requestTimeout);
-    this.headers = {
-      'Content-Type': 'application/json',
-      'Authorization': `Token ${apiKey}`
-    };
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1d', 'daily'] },
+    getFinancialMetrics: true,
+    searchSymbols: true,
+    getMarketNews: true
+  };
+
+  static readonly http: ProviderHttpConfig = {
+    auth: { in: 'header', name: 'Authorization', prefix: 'Token ' },
+    headers: { 'Content-Type': 'application/json' }
+  };
+
+  static readonly displayName = 'Tiingo';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://api.tiingo.com', requestTimeout, options);
   }
 
-    /**
-   * Override makeRequest to handle Tiingo's token-based authentication
-   */
-    protected async makeRequest<T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T> {
-      const url = new URL(endpoint, this.baseUrl);
-      
-      // Add query parameters
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          url.searchParams.append(key, String(value));
-        }
-      });
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
-      try {
-        const response = await fetch(url.toString(), {
-          method: 'GET', // Explicitly set GET method
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-            'User-Agent': 'stocksapi-typescript/1.0.0',
-            'Authorization': `Token ${this.apiKey}`
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-        }
-        
-        return await response.json() as T;
-      } catch (error) {
-        if (error instanceof Error) {
-          if (error.name === 'AbortError') {
-            throw new Error(`Request timed out after ${this.requestTimeout}ms`);
-          }
-          throw new Error(`API request failed: ${error.message}`);
-        }
-        throw error;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    }
-  
-
   /**
    * Get a stock quote
    */
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       // Get current quote from Tiingo daily prices endpoint
       const quoteData = await this.makeRequest<any[]>(
@@ -90,7 +59,7 @@ export class TiingoClient extends BaseStockApiClient {
       );
 
       if (!quoteData || !Array.isArray(quoteData) || quoteData.length === 0) {
-        throw new Error(`No quote data found for symbol: ${symbol}`);
+        throw new SymbolNotFoundError(`No quote data found for symbol: ${symbol}`, { provider: 'Tiingo', symbol });
       }
 
       const latestQuote = quoteData[0];
@@ -124,14 +93,14 @@ export class TiingoClient extends BaseStockApiClient {
             performance
           };
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
           return mappedQuote;
         }
       }
 
       return mappedQuote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
@@ -139,7 +108,7 @@ export class TiingoClient extends BaseStockApiClient {
   /**
    * Get multiple stock quotes in a single request
    */
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const result: BatchQuoteResult = {};
     
     // Process in parallel with a reasonable concurrency limit
@@ -168,7 +137,7 @@ export class TiingoClient extends BaseStockApiClient {
   /**
    * Get company profile information
    */
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       // Use the meta endpoint for company information
       const data = await this.makeRequest<any>(
@@ -177,7 +146,7 @@ export class TiingoClient extends BaseStockApiClient {
 
       return this.mapCompanyProfile(data, symbol);
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
@@ -185,7 +154,7 @@ export class TiingoClient extends BaseStockApiClient {
   /**
    * Get multiple company profiles
    */
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const result: BatchCompanyProfileResult = {};
     
     const BATCH_SIZE = 5;
@@ -219,7 +188,8 @@ export class TiingoClient extends BaseStockApiClient {
     period?: number,
     startDate?: Date,
     endDate?: Date,
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       const params: Record<string, any> = {};
@@ -247,7 +217,7 @@ export class TiingoClient extends BaseStockApiClient {
 
       return data.map(point => this.mapTimeSeriesPoint(point));
     } catch (error) {
-      console.error(`Failed to fetch time series data for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series data', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -259,7 +229,8 @@ export class TiingoClient extends BaseStockApiClient {
     symbol: string,
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'annual',
-    includeGrowthMetrics: boolean = false
+    includeGrowthMetrics: boolean = false,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       // Get meta data which includes some fundamental metrics
@@ -269,7 +240,7 @@ export class TiingoClient extends BaseStockApiClient {
 
       return this.mapFinancialMetrics(data, symbol, asOfDate || new Date());
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
@@ -277,8 +248,8 @@ export class TiingoClient extends BaseStockApiClient {
   /**
    * Get dividends - Tiingo doesn't provide dividend data in daily prices
    */
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
-    console.warn(`Dividends data is not available for Tiingo provider`);
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
+    this.logger.warn('Dividends data is not available for Tiingo provider', { method: 'getDividends' });
     return [];
   }
 
@@ -292,9 +263,10 @@ export class TiingoClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
-    console.warn(`Earnings data is not available for Tiingo provider`);
+    this.logger.warn('Earnings data is not available for Tiingo provider', { method: 'getEarnings' });
     return [];
   }
 
@@ -307,9 +279,10 @@ export class TiingoClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
-    console.warn(`Upcoming earnings data is not available for Tiingo provider`);
+    this.logger.warn('Upcoming earnings data is not available for Tiingo provider', { method: 'getUpcomingEarnings' });
     return [];
   }
 
@@ -326,14 +299,14 @@ export class TiingoClient extends BaseStockApiClient {
 
     return data.map(item => this.mapStockSymbol(item));
   } catch (error) {
-    console.error(`Failed to search symbols for query "${query}":`, error);
+    this.logger.error('Failed to search symbols', { method: 'searchSymbols', query, error });
     throw error;
   }
 }
   /**
    * Get market news
    */
-  async getMarketNews(symbols?: string[], limit: number = 50): Promise<NewsArticle[]> {
+  async getMarketNews(symbols?: string[], limit: number = 50, callOptions?: CallOptions): Promise<NewsArticle[]> {
     try {
       const params: Record<string, any> = {};
       
@@ -352,7 +325,7 @@ export class TiingoClient extends BaseStockApiClient {
 
       return data.map(item => this.mapNewsArticle(item));
     } catch (error) {
-      console.error(`Failed to fetch market news:`, error);
+      this.logger.error('Failed to fetch market news', { method: 'getMarketNews', error });
       throw error;
     }
   }
@@ -588,7 +561,7 @@ export class TiingoClient extends BaseStockApiClient {
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -596,7 +569,7 @@ export class TiingoClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -604,7 +577,7 @@ export class TiingoClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 }
\ No newline at end of file
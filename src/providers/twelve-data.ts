@@ -1,4 +1,6 @@
-import { BaseStockApiClient } from '../clients/base-client';
+import { BaseStockApiClient, BaseClientOptions } from '../clients/base-client';
+import { ProviderCapabilities } from '../clients/capabilities';
+import { ProviderHttpConfig } from '../clients/http-transport';
 import { 
   StockSymbol, 
   TimeSeriesPoint, 
@@ -12,7 +14,8 @@ import {
   NewsArticle,
   TimeInterval,
   BatchQuoteResult,
-  BatchCompanyProfileResult
+  BatchCompanyProfileResult,
+  CallOptions
 } from '../types';
 import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from 'date-fns';
 
@@ -21,80 +24,30 @@ import { subDays, subMonths, subYears, isBefore, isSameDay, startOfYear } from '
  * Documentation: https://twelvedata.com/docs
  */
 export class TwelveDataClient extends BaseStockApiClient {
-  protected readonly baseUrl: string;
-
-  constructor(apiKey: string, requestTimeout: number = 30000) {
-    const baseUrl = 'https://api.twelvedata.com';
-    super(apiKey, baseUrl, requestTimeout);
-    this.baseUrl = baseUrl;
-  }
-
-  // Helper method to make API requests with error handling
-  protected async makeRequest<T>(
-    endpoint: string, 
-    params: Record<string, string | number | boolean | undefined> = {}
-  ): Promise<T> {
-    try {
-      // Create a clean params object with only defined values
-      const cleanParams: Record<string, string> = {};
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          cleanParams[key] = String(value);
-        }
-      }
-      
-      // Add API key to all requests
-      cleanParams.apikey = this.apiKey;
-      
-      const url = new URL(endpoint, this.baseUrl);
-      Object.entries(cleanParams).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
-      });
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
-      try {
-        const response = await fetch(url.toString(), {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'stocksapi-typescript/1.0.0',
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-        }
-        
-        const data = await response.json() as T;
-        return data;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: unknown) {
-      let errorMessage = 'Unknown error';
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          errorMessage = `Request timed out after ${this.requestTimeout}ms`;
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
-      console.error(`Twelve Data API request failed: ${errorMessage}`, { 
-        endpoint, 
-        params 
-      });
-      
-      throw new Error(`Failed to fetch data from Twelve Data: ${errorMessage}`);
-    }
+  static readonly capabilities: ProviderCapabilities = {
+    getQuote: true,
+    getQuotes: true,
+    getCompanyProfile: true,
+    getCompanyProfiles: true,
+    getTimeSeries: { intervals: ['1min', '5min', '15min', '30min', '60min', '1d', 'daily', 'weekly', 'monthly'] },
+    getFinancialMetrics: true,
+    getDividends: true,
+    getEarnings: true,
+    getUpcomingEarnings: true,
+    searchSymbols: true,
+    getMarketNews: true
+  };
+
+  static readonly http: ProviderHttpConfig = { auth: { in: 'query', name: 'apikey' } };
+
+  static readonly displayName = 'Twelve Data';
+
+  constructor(apiKey: string, requestTimeout: number = 30000, options: BaseClientOptions = {}) {
+    super(apiKey, 'https://api.twelvedata.com', requestTimeout, options);
   }
 
   // Stock data methods
-  async getQuote(symbol: string, includeHistorical: boolean = true): Promise<StockQuote> {
+  async getQuote(symbol: string, includeHistorical: boolean = true, callOptions?: CallOptions): Promise<StockQuote> {
     try {
       // Get current quote
       const quoteData = await this.makeRequest<{
@@ -167,18 +120,18 @@ export class TwelveDataClient extends BaseStockApiClient {
           quote.volumeMetrics = volumeMetrics;
           quote.performance = performance;
         } catch (error) {
-          console.warn(`Could not fetch historical data for ${symbol}:`, error);
+          this.logger.warn('Could not fetch historical data', { method: 'getQuote', symbol, error });
         }
       }
 
       return quote;
     } catch (error) {
-      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      this.logger.error('Failed to fetch quote', { method: 'getQuote', symbol, error });
       throw error;
     }
   }
 
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult> {
     const results: BatchQuoteResult = {};
     
     for (const symbol of symbols) {
@@ -201,7 +154,7 @@ export class TwelveDataClient extends BaseStockApiClient {
     return results;
   }
 
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
+  async getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile> {
     try {
       const profile = await this.makeRequest<{
         symbol: string;
@@ -243,12 +196,12 @@ export class TwelveDataClient extends BaseStockApiClient {
       
       return companyProfile;
     } catch (error) {
-      console.error(`Failed to fetch company profile for ${symbol}:`, error);
+      this.logger.error('Failed to fetch company profile', { method: 'getCompanyProfile', symbol, error });
       throw error;
     }
   }
 
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult> {
     const results: BatchCompanyProfileResult = {};
     
     for (const symbol of symbols) {
@@ -277,7 +230,8 @@ export class TwelveDataClient extends BaseStockApiClient {
     period: number = 30,
     startDate?: Date,
     endDate: Date = new Date(),
-    outputSize: 'compact' | 'full' = 'compact'
+    outputSize: 'compact' | 'full' = 'compact',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]> {
     try {
       // Map our interval to Twelve Data's format
@@ -350,7 +304,7 @@ export class TwelveDataClient extends BaseStockApiClient {
 
       return timeSeries;
     } catch (error) {
-      console.error(`Failed to fetch time series data for ${symbol}:`, error);
+      this.logger.error('Failed to fetch time series data', { method: 'getTimeSeries', symbol, error });
       throw error;
     }
   }
@@ -360,7 +314,8 @@ export class TwelveDataClient extends BaseStockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period: 'annual' | 'quarterly' | 'ttm' = 'annual',
-    includeGrowthMetrics: boolean = true
+    includeGrowthMetrics: boolean = true,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics> {
     try {
       const metrics = await this.makeRequest<{
@@ -411,12 +366,12 @@ export class TwelveDataClient extends BaseStockApiClient {
         fiscalYearEnd: '12-31' // Default, can be overridden if needed
       };
     } catch (error) {
-      console.error(`Failed to fetch financial metrics for ${symbol}:`, error);
+      this.logger.error('Failed to fetch financial metrics', { method: 'getFinancialMetrics', symbol, error });
       throw error;
     }
   }
 
-  async getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]> {
+  async getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]> {
     try {
       const from = startDate ? startDate.toISOString().split('T')[0] : undefined;
       const to = endDate ? endDate.toISOString().split('T')[0] : undefined;
@@ -446,7 +401,7 @@ export class TwelveDataClient extends BaseStockApiClient {
         currency: d.currency || 'USD'
       }));
     } catch (error) {
-      console.error(`Failed to fetch dividends for ${symbol}:`, error);
+      this.logger.error('Failed to fetch dividends', { method: 'getDividends', symbol, error });
       throw error;
     }
   }
@@ -458,7 +413,8 @@ export class TwelveDataClient extends BaseStockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const limit = options?.limit || 4;
@@ -509,7 +465,7 @@ export class TwelveDataClient extends BaseStockApiClient {
         return earningsReport;
       });
     } catch (error) {
-      console.error(`Failed to fetch earnings for ${symbol}:`, error);
+      this.logger.error('Failed to fetch earnings', { method: 'getEarnings', symbol, error });
       throw error;
     }
   }
@@ -520,7 +476,8 @@ export class TwelveDataClient extends BaseStockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]> {
     try {
       const from = options?.startDate || new Date();
@@ -582,13 +539,13 @@ export class TwelveDataClient extends BaseStockApiClient {
         return earningsReport;
       });
     } catch (error) {
-      console.error('Failed to fetch upcoming earnings:', error);
+      this.logger.error('Failed to fetch upcoming earnings', { method: 'getUpcomingEarnings', error });
       throw error;
     }
   }
 
   // Market data methods
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
+  async searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]> {
     try {
       const results = await this.makeRequest<{
         data: Array<{
@@ -612,12 +569,12 @@ export class TwelveDataClient extends BaseStockApiClient {
         type: r.type
       }));
     } catch (error) {
-      console.error(`Failed to search symbols for query "${query}":`, error);
+      this.logger.error('Failed to search symbols', { method: 'searchSymbols', query, error });
       throw error;
     }
   }
 
-  async getMarketNews(symbols: string[] = [], limit: number = 10): Promise<NewsArticle[]> {
+  async getMarketNews(symbols: string[] = [], limit: number = 10, callOptions?: CallOptions): Promise<NewsArticle[]> {
     try {
       const news = await this.makeRequest<Array<{
         id: string;
@@ -654,7 +611,7 @@ export class TwelveDataClient extends BaseStockApiClient {
           relatedSymbols: article.symbols || []
         }));
     } catch (error) {
-      console.error('Failed to fetch market news:', error);
+      this.logger.error('Failed to fetch market news', { method: 'getMarketNews', error });
       throw error;
     }
   }
@@ -737,7 +694,7 @@ export class TwelveDataClient extends BaseStockApiClient {
    * This provider doesn't support economic events - return empty array
    */
   async getEconomicEvents(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic events are not supported by this provider');
+    this.logger.warn('Economic events are not supported by this provider', { method: 'getEconomicEvents' });
     return [];
   }
 
@@ -745,7 +702,7 @@ export class TwelveDataClient extends BaseStockApiClient {
    * This provider doesn't support economic calendar - return empty array
    */
   async getEconomicCalendar(): Promise<import('../types').EconomicCalendarEntry[]> {
-    console.warn('Economic calendar is not supported by this provider');
+    this.logger.warn('Economic calendar is not supported by this provider', { method: 'getEconomicCalendar' });
     return [];
   }
 
@@ -753,7 +710,7 @@ export class TwelveDataClient extends BaseStockApiClient {
    * This provider doesn't support economic indicators - return empty array
    */
   async getEconomicIndicator(): Promise<import('../types').EconomicEvent[]> {
-    console.warn('Economic indicators are not supported by this provider');
+    this.logger.warn('Economic indicators are not supported by this provider', { method: 'getEconomicIndicator' });
     return [];
   }
 } 
\ No newline at end of file
@@ -15,19 +15,34 @@ import {
   EconomicEventOptions,
   EconomicCalendarEntry,
   EconomicIndicator,
-  EconomicRegion
+  EconomicRegion,
+  RequestOptions,
+  MergeRequestOptions,
+  QuoteRequestOptions,
+  TimeSeriesRequestOptions
 } from './types';
 
-import { validateConfig, StocksApiConfig } from './config';
-import { ProviderRegistry } from './providers';
-import { AlphaVantageClient } from './providers/alpha-vantage';
-import { PolygonIoClient } from './providers/polygon-io';
-import { FinnhubClient } from './providers/finnhub';
-import { TwelveDataClient } from './providers/twelve-data';
-import { MarketstackClient } from './providers/marketstack';
-import { EODHDClient } from './providers/eodhd';
-import { FinancialModelingPrepClient } from './providers/financial-modeling-prep';
-import { QuoddClient } from './providers/quodd';
+import { validateConfig, getProviderRateLimits, getProviderKeyRateLimits, getProviderApiKeys, getProviderKeyCooldown, StocksApiConfig, ApiProviderConfig, ProviderName, CustomProviderOptions } from './config';
+import { BaseClientOptions, RateLimiter, resolveRetryPolicy, CapabilityMethod, CapabilityReport, HttpTransport, createConnectionTransport, KeyPool, KeyUsage, UsageTracker, ProviderUsage } from './clients';
+import {
+  ProviderRegistry,
+  ProviderHealth,
+  ProviderQuote,
+  buildConsensusQuote,
+  MergeMethod,
+  COMPANY_PROFILE_FIELDS,
+  FINANCIAL_METRICS_FIELDS
+} from './providers';
+import { ResponseCache, normalizeSymbol, normalizeSymbols, getTimeSeriesTtl } from './cache';
+import { StocksApiEmitter } from './events';
+import { AllProvidersFailedError, ProviderAttempt, RequestAbortedError, createProviderAttempt } from './errors';
+import { runWithCallOptions, throwIfAborted } from './clients/call-options';
+import { CallTrace, runWithTrace } from './clients/call-trace';
+import { attachMeta, describeTrace } from './meta';
+import { Logger, silentLogger, createScopedLogger } from './logger';
+import { PROVIDER_FACTORIES, ProviderFactory } from './providers/factories';
+
+const QUARTER_MS = 91 * 24 * 60 * 60 * 1000;
 
 /**
  * The main StocksAPI class that provides a unified interface to multiple stock market data providers.
@@ -48,6 +63,25 @@ import { QuoddClient } from './providers/quodd';
 export class StocksAPI implements StockApiClient {
   private registry: ProviderRegistry;
   private config: StocksApiConfig;
+  private cache: ResponseCache;
+  private logger: Logger;
+  /** Shared by every client, so they share one pool of connections */
+  private transport?: HttpTransport;
+  private keyPools = new Map<ProviderName, KeyPool>();
+  private usage: UsageTracker;
+  
+  /**
+   * Lifecycle events of every request made through this instance:
+   * `request:start`, `request:end`, `fallback`, `hedge`, `cache:hit` and `ratelimit:wait`
+   * 
+   * @example
+   * ```typescript
+   * api.events.on('request:end', ({ provider, endpoint, status, latencyMs }) => {
+   *   metrics.histogram('provider_latency', latencyMs, { provider, endpoint, status });
+   * });
+   * ```
+   */
+  readonly events: StocksApiEmitter;
 
   /**
    * Create a new StocksAPI instance
@@ -56,9 +90,21 @@ export class StocksAPI implements StockApiClient {
   constructor(config: Partial<StocksApiConfig> = {}) {
     // Validate and merge with default config
     this.config = validateConfig(config);
+    const { connection } = this.config;
+    this.logger = createScopedLogger(this.config.logger || silentLogger, {
+      secrets: [
+        ...Object.values(this.config.providers).flatMap(provider => provider ? getProviderApiKeys(provider) : []),
+        connection?.proxy ? new URL(connection.proxy).password : ''
+      ]
+    });
+    this.events = new StocksApiEmitter(this.logger);
+    this.transport = this.config.transport || (connection ? createConnectionTransport(connection) : undefined);
+    
+    this.usage = new UsageTracker(this.config.usage, this.logger);
     
     // Initialize provider registry
-    this.registry = new ProviderRegistry(this.config);
+    this.registry = new ProviderRegistry(this.config, this.events, this.logger, this.usage);
+    this.cache = new ResponseCache(this.config.cache, this.events, this.logger);
     
     // Register all available providers
     this.initializeProviders();
@@ -68,262 +114,432 @@ export class StocksAPI implements StockApiClient {
    * Initialize and register all configured providers
    */
   private initializeProviders(): void {
-    const { providers } = this.config;
-    
-    // Register Alpha Vantage if configured
-    if (providers.alphaVantage?.enabled) {
-      this.registry.registerProvider(
-        'alphaVantage',
-        new AlphaVantageClient(
-          providers.alphaVantage.apiKey,
-          this.config.requestTimeout
-        )
-      );
-    }
-    
-    // Register Polygon.io if configured
-    if (providers.polygon?.enabled) {
-      this.registry.registerProvider(
-        'polygon',
-        new PolygonIoClient(
-          providers.polygon.apiKey,
-          this.config.requestTimeout
-        )
-      );
-    }
-    
-    // Register Finnhub if configured
-    if (providers.finnhub?.enabled) {
-      this.registry.registerProvider(
-        'finnhub',
-        new FinnhubClient(
-          providers.finnhub.apiKey,
-          this.config.requestTimeout
-        )
-      );
-    }
-    
-    // Register Twelve Data if configured
-    if (providers.twelveData?.enabled) {
-      this.registry.registerProvider(
-        'twelveData',
-        new TwelveDataClient(
-          providers.twelveData.apiKey,
-          this.config.requestTimeout
-        )
-      );
-    }
-    
-    // Register Marketstack if configured
-    if (providers.marketStack?.enabled) {
+    for (const [name, factory] of Object.entries(PROVIDER_FACTORIES) as [keyof StocksApiConfig['providers'], ProviderFactory][]) {
+      const providerConfig = this.config.providers[name];
+      if (!providerConfig?.enabled) {
+        continue;
+      }
       this.registry.registerProvider(
-        'marketStack',
-        new MarketstackClient(
-          providers.marketStack.apiKey,
-          this.config.requestTimeout
-        )
+        name,
+        factory(providerConfig.apiKey, this.config.requestTimeout, this.getClientOptions(name, providerConfig)),
+        providerConfig.priority,
+        providerConfig
       );
     }
-    
-    // Register EODHD if configured
-    if (providers.eodhd?.enabled) {
-      this.registry.registerProvider(
-        'eodhd',
-        new EODHDClient(
-          providers.eodhd.apiKey,
-          this.config.requestTimeout
-        )
-      );
+  }
+
+  /**
+   * Add a provider of your own, such as an in-house market data service. It takes part in
+   * routing, fallback, hedging, merging and batches like the built-in providers.
+   * @param name - Name used in `routing`, events, errors and result metadata
+   * @param client - Any StockApiClient, e.g. a BaseStockApiClient subclass, or a function creating
+   * one from the options StocksAPI gives its own clients: shared events, logger, transport, retry
+   * policy, and a rate limiter and key pool built from `options.config`
+   * @param options - Priority, capabilities and provider settings
+   * @throws {Error} If a provider with this name is already registered
+   * 
+   * @example
+   * ```typescript
+   * api.registerProvider('inHouse', (options) => new InHouseClient(process.env.IN_HOUSE_KEY!, options), {
+   *   priority: 0,
+   *   capabilities: { getQuote: true, getQuotes: true },
+   *   config: { apiKey: process.env.IN_HOUSE_KEY, rateLimit: 600 }
+   * });
+   * ```
+   */
+  registerProvider(
+    name: string,
+    client: StockApiClient | ((options: BaseClientOptions) => StockApiClient),
+    options: CustomProviderOptions = {}
+  ): void {
+    if (this.registry.getProvider(name)) {
+      throw new Error(`Provider ${name} is already registered`);
     }
+    const providerConfig: ApiProviderConfig = {
+      name,
+      baseUrl: '',
+      apiKey: '',
+      enabled: true,
+      rateLimit: 0,
+      isPremium: false,
+      ...options.config,
+      priority: options.priority ?? options.config?.priority ?? 10,
+      features: {
+        realtime: true,
+        historical: true,
+        fundamentals: true,
+        news: true,
+        forex: true,
+        crypto: true,
+        technicals: true,
+        economic: true,
+        ...options.config?.features
+      }
+    };
     
-    // Register Financial Modeling Prep if configured
-    if (providers.financialModelingPrep?.enabled) {
-      this.registry.registerProvider(
-        'financialModelingPrep',
-        new FinancialModelingPrepClient(
-          providers.financialModelingPrep.apiKey,
-          this.config.requestTimeout
-        )
-      );
+    this.registry.registerProvider(
+      name,
+      typeof client === 'function' ? client(this.getClientOptions(name, providerConfig)) : client,
+      providerConfig.priority,
+      providerConfig,
+      options.capabilities
+    );
+  }
+
+  /**
+   * Build the shared client options for a provider from the global and per-provider settings.
+   * Providers without API keys get no key pool and are not counted in the usage.
+   */
+  private getClientOptions(name: ProviderName, providerConfig: ApiProviderConfig): BaseClientOptions {
+    const apiKeys = getProviderApiKeys(providerConfig);
+    const keyPool = apiKeys.length > 0
+      ? new KeyPool(apiKeys, {
+        rotation: providerConfig.keyRotation,
+        cooldownMs: getProviderKeyCooldown(providerConfig)
+      })
+      : undefined;
+    if (keyPool) {
+      this.keyPools.set(name, keyPool);
+      this.usage.register(name, keyPool.keys, getProviderKeyRateLimits(providerConfig));
     }
     
-    // Register Quodd if configured
-    if (providers.quodd?.enabled) {
-      this.registry.registerProvider(
-        'quodd',
-        new QuoddClient(
-          providers.quodd.apiKey,
-          this.config.requestTimeout
-        )
-      );
-    }
+    return {
+      name,
+      baseUrl: providerConfig.baseUrl || undefined,
+      keyPool,
+      usage: this.usage,
+      events: this.events,
+      logger: this.config.logger,
+      transport: this.transport,
+      retry: resolveRetryPolicy(
+        {
+          maxRetries: this.config.maxRetries,
+          retryDelay: this.config.retryDelay,
+          maxRetryDelay: this.config.maxRetryDelay
+        },
+        providerConfig.retry
+      ),
+      rateLimiter: new RateLimiter(getProviderRateLimits(providerConfig), {
+        maxWaitMs: this.config.maxRateLimitWait
+      })
+    };
   }
 
   /**
    * Get a stock quote with automatic fallback to other providers if needed.
    * If the quote doesn't include a company name, it will be fetched from the company profile.
    * @param symbol - The stock symbol to get a quote for
-   * @param includeCompanyName - Whether to include the company name in the response (default: true)
+   * @param optionsOrIncludeName - Request options, or whether to include the company name in the response (default: true)
+   * @param requestOptions - Request options following the flag, in the position StockApiClient.getQuote takes them
    * @returns A StockQuote object with the latest price and other market data
-   * @throws {Error} If no provider can fulfill the request
+   * @throws {AllProvidersFailedError} If no provider can fulfill the request
    * 
    * @example
    * ```typescript
    * // Get a basic quote
    * const quote = await api.getQuote('AAPL');
    * console.log(`${quote.symbol} (${quote.companyName}): $${quote.price}`);
+   * 
+   * // Skip the cache
+   * const fresh = await api.getQuote('AAPL', { cache: false });
+   * 
+   * // Median price of three providers, with the outliers among them
+   * const checked = await api.getQuote('AAPL', { consensus: 3 });
+   * console.log(checked.price, checked.consensus?.outliers);
    * ```
    */
-  async getQuote(symbol: string, includeCompanyName: boolean = true): Promise<StockQuote> {
-    // First, get the quote data
-    const result = await this.registry.withFallback('realtime', (provider) => 
-      provider.getQuote(symbol)
-    );
+  async getQuote(
+    symbol: string,
+    optionsOrIncludeName: boolean | QuoteRequestOptions = {},
+    requestOptions: QuoteRequestOptions = {}
+  ): Promise<StockQuote> {
+    const options: QuoteRequestOptions = typeof optionsOrIncludeName === 'boolean'
+      ? { ...requestOptions, includeCompanyName: optionsOrIncludeName }
+      : optionsOrIncludeName;
+    const includeCompanyName = options.includeCompanyName !== false;
+    const consensus = options.consensus && options.consensus > 1 ? options.consensus : undefined;
+    const cacheParams = consensus
+      ? [normalizeSymbol(symbol), includeCompanyName, consensus, options.outlierPercent ?? 1]
+      : [normalizeSymbol(symbol), includeCompanyName];
     
-    if (!result) {
-      throw new Error(`Could not fetch quote for symbol: ${symbol}`);
-    }
-    
-    // If the quote already has a company name or we don't need to include it, return as is
-    if (!includeCompanyName || result.companyName) {
+    return this.cache.wrap('getQuote', cacheParams, () => this.traced(async () => {
+      // First, get the quote data
+      const result = consensus
+        ? await this.getConsensusQuote(symbol, consensus, options.outlierPercent)
+        : await this.registry.withFallback('realtime', (provider) => 
+          provider.getQuote(symbol),
+          { capability: { method: 'getQuote' }, hedgeMs: options.hedgeMs }
+        );
+      
+      if (!result) {
+        throw new Error(`Could not fetch quote for symbol: ${symbol}`);
+      }
+      
+      // If the quote already has a company name or we don't need to include it, return as is
+      if (!includeCompanyName || result.companyName) {
+        return result;
+      }
+      
+      try {
+        // Try to get the company profile to populate the company name
+        const profile = await this.getCompanyProfile(symbol);
+        if (profile && profile.name) {
+          return {
+            ...result,
+            companyName: profile.name
+          };
+        }
+      } catch (error) {
+        // If we can't get the company profile, just return the quote without the name
+        this.logger.warn('Could not fetch company name', { method: 'getQuote', symbol, error });
+      }
+      
       return result;
+    }), options);
+  }
+
+  /**
+   * Ask the first `count` available realtime providers for a quote in parallel and
+   * combine their answers into one priced at the median
+   * @throws {AllProvidersFailedError} If none of them answered
+   */
+  private async getConsensusQuote(symbol: string, count: number, outlierPercent?: number): Promise<StockQuote> {
+    const names: ProviderName[] = [];
+    for (const name of this.registry.getProviderNamesForFeature('realtime')) {
+      if (names.length >= count) {
+        break;
+      }
+      if (this.registry.supports(name, { method: 'getQuote' }) && this.registry.isAvailable(name, 'realtime')) {
+        names.push(name);
+      }
     }
     
-    try {
-      // Try to get the company profile to populate the company name
-      const profile = await this.getCompanyProfile(symbol);
-      if (profile && profile.name) {
-        return {
-          ...result,
-          companyName: profile.name
-        };
+    const attempts: ProviderAttempt[] = [];
+    const answers = await Promise.all(names.map(async (name): Promise<ProviderQuote | undefined> => {
+      const startedAt = Date.now();
+      try {
+        const quote = await this.registry.callProvider(name, 'realtime', (provider) => provider.getQuote(symbol));
+        if (quote && Number.isFinite(quote.price)) {
+          return { provider: name, quote };
+        }
+        attempts.push(createProviderAttempt(name, Date.now() - startedAt, { empty: true }));
+        this.events.emit('fallback', { feature: 'realtime', provider: name });
+      } catch (error) {
+        if (error instanceof RequestAbortedError) {
+          throw error;
+        }
+        const attempt = createProviderAttempt(name, Date.now() - startedAt, { error });
+        this.logger.warn('Provider failed to return a consensus quote', { provider: name, symbol, error: attempt.error });
+        attempts.push(attempt);
+        this.events.emit('fallback', { feature: 'realtime', provider: name, error: attempt.error });
       }
-    } catch (error) {
-      // If we can't get the company profile, just return the quote without the name
-      console.warn(`Could not fetch company name for ${symbol}:`, error instanceof Error ? error.message : 'Unknown error');
-    }
+      return undefined;
+    }));
     
-    return result;
+    const quotes = answers.filter((answer): answer is ProviderQuote => answer !== undefined);
+    if (quotes.length === 0) {
+      throw new AllProvidersFailedError(attempts, { feature: 'realtime' });
+    }
+    return buildConsensusQuote(quotes, names.length, outlierPercent);
   }
 
   /**
-   * Get multiple stock quotes with fallback support
+   * Get multiple stock quotes with fallback support.
+   * Cached quotes are served from the cache; only the remaining symbols are requested.
    */
-  async getQuotes(symbols: string[]): Promise<BatchQuoteResult> {
+  async getQuotes(symbols: string[], requestOptions: RequestOptions = {}): Promise<BatchQuoteResult> {
     // Handle empty array case
     if (!Array.isArray(symbols) || symbols.length === 0) {
       return Promise.resolve({});
     }
 
-    // Get all providers that support realtime data
-    const providers = this.registry.getProvidersForFeature('realtime');
-    
-    // Initialize results with all symbols as not found
-    const results: BatchQuoteResult = {};
-    for (const symbol of symbols) {
-      results[symbol] = {
-        success: false,
-        symbol,
-        error: new Error('No provider could fetch this symbol')
-      };
-    }
-    
-    // Try each provider to fill in missing data
-    for (const provider of providers) {
-      try {
-        const providerResults = await provider.getQuotes(symbols);
-        
-        // Update results with successful fetches
-        for (const [symbol, result] of Object.entries(providerResults)) {
-          if (result.success && result.data) {
-            results[symbol] = result;
-          }
+    return runWithCallOptions(requestOptions, () => this.traced(async () => {
+      // Get all providers that support realtime data
+      const providers = this.registry.getProviderNamesForFeature('realtime');
+      
+      // Initialize results with all symbols as not found
+      const results: BatchQuoteResult = {};
+      for (const symbol of symbols) {
+        const cached = requestOptions.cache !== false
+          ? await this.cache.read<StockQuote>('getQuote', [normalizeSymbol(symbol), false])
+          : undefined;
+        results[symbol] = cached
+          ? { success: true, symbol, data: cached }
+          : {
+            success: false,
+            symbol,
+            error: new Error('No provider could fetch this symbol')
+          };
+      }
+      
+      // Try each provider to fill in missing data, stopping once every symbol has data
+      for (const name of providers) {
+        throwIfAborted();
+        const missing = symbols.filter(symbol => !results[symbol].success);
+        if (missing.length === 0) {
+          break;
+        }
+        if (!this.registry.supports(name, { method: 'getQuotes' }) ||
+            !this.registry.isAvailable(name, 'realtime')) {
+          continue;
         }
         
-        // Check if we have all the data we need
-        const hasAllData = Object.values(results).every(r => r.success);
-        if (hasAllData) {
-          break;
+        try {
+          const providerResults = await this.registry.callProvider(name, 'realtime', (provider) => 
+            provider.getQuotes(missing)
+          );
+          
+          // Update results with successful fetches
+          for (const [symbol, result] of Object.entries(providerResults)) {
+            if (result.success && result.data) {
+              results[symbol] = result;
+              await this.cache.write('getQuote', [normalizeSymbol(symbol), false], result.data);
+            }
+          }
+        } catch (error) {
+          if (error instanceof RequestAbortedError) {
+            throw error;
+          }
+          this.logger.warn('Provider failed to return quotes', { provider: name, method: 'getQuotes', error });
+          this.events.emit('fallback', {
+            feature: 'realtime',
+            provider: name,
+            error: error instanceof Error ? error : new Error(String(error))
+          });
         }
-      } catch (error) {
-        console.warn(`Error getting quotes from provider:`, error);
       }
-    }
-    
-    return results;
+      
+      return results;
+    }));
   }
 
   /**
    * Get company profile with fallback support
-   * @throws {Error} If no provider can fulfill the request
+   * @throws {AllProvidersFailedError} If no provider can fulfill the request
    */
-  async getCompanyProfile(symbol: string): Promise<CompanyProfile> {
-    const result = await this.registry.withFallback('fundamentals', (provider) => 
-      provider.getCompanyProfile(symbol)
-    );
-    
-    if (!result) {
-      throw new Error(`Could not fetch company profile for symbol: ${symbol}`);
-    }
-    
-    return result;
+  async getCompanyProfile(symbol: string, requestOptions: MergeRequestOptions = {}): Promise<CompanyProfile> {
+    const merge = this.shouldMerge('getCompanyProfile', requestOptions);
+    const params = merge ? [normalizeSymbol(symbol), 'merged'] : [normalizeSymbol(symbol)];
+    return this.cache.wrap('getCompanyProfile', params, () => this.traced(async () => {
+      const callback = (provider: StockApiClient) => provider.getCompanyProfile(symbol);
+      const capability = { method: 'getCompanyProfile' as const };
+      const result = merge
+        ? (await this.registry.withMerge('fundamentals', callback, {
+          capability,
+          fields: COMPANY_PROFILE_FIELDS,
+          precedence: this.config.merge?.precedence
+        })).record
+        : await this.registry.withFallback('fundamentals', callback, { capability });
+      
+      if (!result) {
+        throw new Error(`Could not fetch company profile for symbol: ${symbol}`);
+      }
+      
+      return result;
+    }), requestOptions);
   }
 
   /**
-   * Get multiple company profiles with fallback support
+   * Get multiple company profiles with fallback support.
+   * Cached profiles are served from the cache; only the remaining symbols are requested.
    */
-  async getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult> {
+  async getCompanyProfiles(symbols: string[], requestOptions: RequestOptions = {}): Promise<BatchCompanyProfileResult> {
     // Handle empty array case
     if (!Array.isArray(symbols) || symbols.length === 0) {
       return Promise.resolve({});
     }
 
-    const providers = this.registry.getProvidersForFeature('fundamentals');
-    const results: BatchCompanyProfileResult = {};
-    
-    // Initialize results with all symbols as not found
-    for (const symbol of symbols) {
-      results[symbol] = {
-        success: false,
-        symbol,
-        error: new Error('No provider could fetch this symbol')
-      };
-    }
-    
-    // Try each provider to fill in missing data
-    for (const provider of providers) {
-      try {
-        const providerResults = await provider.getCompanyProfiles(symbols);
-        
-        // Update results with successful fetches
-        for (const [symbol, result] of Object.entries(providerResults)) {
-          if (result.success && result.data) {
-            results[symbol] = result;
-          }
+    return runWithCallOptions(requestOptions, () => this.traced(async () => {
+      const providers = this.registry.getProviderNamesForFeature('fundamentals');
+      const results: BatchCompanyProfileResult = {};
+      
+      // Initialize results with all symbols as not found
+      for (const symbol of symbols) {
+        const cached = requestOptions.cache !== false
+          ? await this.cache.read<CompanyProfile>('getCompanyProfile', [normalizeSymbol(symbol)])
+          : undefined;
+        results[symbol] = cached
+          ? { success: true, symbol, data: cached }
+          : {
+            success: false,
+            symbol,
+            error: new Error('No provider could fetch this symbol')
+          };
+      }
+      
+      // Try each provider to fill in missing data, stopping once every symbol has data
+      for (const name of providers) {
+        throwIfAborted();
+        const missing = symbols.filter(symbol => !results[symbol].success);
+        if (missing.length === 0) {
+          break;
+        }
+        if (!this.registry.supports(name, { method: 'getCompanyProfiles' }) ||
+            !this.registry.isAvailable(name, 'fundamentals')) {
+          continue;
         }
         
-        // Check if we have all the data we need
-        const hasAllData = Object.values(results).every(r => r.success);
-        if (hasAllData) {
-          break;
+        try {
+          const providerResults = await this.registry.callProvider(name, 'fundamentals', (provider) => 
+            provider.getCompanyProfiles(missing)
+          );
+          
+          // Update results with successful fetches
+          for (const [symbol, result] of Object.entries(providerResults)) {
+            if (result.success && result.data) {
+              results[symbol] = result;
+              await this.cache.write('getCompanyProfile', [normalizeSymbol(symbol)], result.data);
+            }
+          }
+        } catch (error) {
+          if (error instanceof RequestAbortedError) {
+            throw error;
+          }
+          this.logger.warn('Provider failed to return company profiles', { provider: name, method: 'getCompanyProfiles', error });
+          this.events.emit('fallback', {
+            feature: 'fundamentals',
+            provider: name,
+            error: error instanceof Error ? error : new Error(String(error))
+          });
         }
-      } catch (error) {
-        console.warn(`Error getting company profiles from provider:`, error);
       }
-    }
-    
-    return results;
+      
+      return results;
+    }));
   }
 
   /**
-   * Get time series data with fallback support
-   * @throws {Error} If no provider can fulfill the request
+   * Get time series data with fallback support.
+   * Ranges that ended before today are cached indefinitely, since closed bars never change.
+   * With a persistent cache, daily bars requested with a start date are stored durably
+   * and only the days missing from the store are fetched.
+   * Takes the arguments of StockApiClient.getTimeSeries followed by the request options,
+   * or the request options (including the period and range) in place of the period.
+   * @param periodOrOptions - Number of data points (default: 100), or request options
+   * @throws {AllProvidersFailedError} If no provider can fulfill the request
    */
   async getTimeSeries(
     symbol: string, 
     interval: TimeInterval,
-    period: number = 100
+    periodOrOptions: number | TimeSeriesRequestOptions = 100,
+    startDate?: Date,
+    endDate?: Date,
+    outputSize?: 'compact' | 'full',
+    requestOptions: RequestOptions = {}
   ): Promise<TimeSeriesPoint[]> {
+    const options: TimeSeriesRequestOptions = typeof periodOrOptions === 'number'
+      ? { ...requestOptions, period: periodOrOptions, startDate, endDate, outputSize }
+      : periodOrOptions;
+    return this.fetchTimeSeries(symbol, interval, options);
+  }
+
+  private async fetchTimeSeries(
+    symbol: string,
+    interval: TimeInterval,
+    options: TimeSeriesRequestOptions
+  ): Promise<TimeSeriesPoint[]> {
+    const { period = 100, startDate, endDate, outputSize } = options;
+    
     // Determine which feature to use based on interval
     const isIntraday = [
       '1m', '5m', '15m', '30m', '1h'
@@ -331,56 +547,135 @@ export class StocksAPI implements StockApiClient {
     
     const feature = isIntraday ? 'realtime' : 'historical';
     
-    const result = await this.registry.withFallback(feature, (provider) => 
-      provider.getTimeSeries(symbol, interval, period)
-    );
-    
-    if (!result) {
-      throw new Error(`Could not fetch time series data for symbol: ${symbol}`);
+    if (startDate && this.cache.persistent && (interval === 'daily' || interval === '1d')) {
+      return this.traced(() => this.cache.getRange(
+        'getTimeSeries',
+        [normalizeSymbol(symbol), interval],
+        { start: startDate, end: endDate || new Date() },
+        (point: TimeSeriesPoint) => point.timestamp,
+        // Ask for every bar of the range; compact answers only hold the most recent ones
+        (range) => this.registry.withFallback(feature, (provider) => 
+          provider.getTimeSeries(symbol, interval, undefined, range.start, range.end, 'full'),
+          // A range can hold no trading days at all (e.g. a weekend)
+          { allowEmpty: true, capability: { method: 'getTimeSeries', interval } }
+        ),
+        options
+      ));
     }
     
-    return result;
+    const params = [normalizeSymbol(symbol), interval, period, startDate, endDate, ...(outputSize ? [outputSize] : [])];
+    return this.cache.wrap('getTimeSeries', params, () => this.traced(async () => {
+      const result = await this.registry.withFallback(feature, (provider) => 
+        provider.getTimeSeries(symbol, interval, period, startDate, endDate, outputSize),
+        { capability: { method: 'getTimeSeries', interval } }
+      );
+      
+      if (!result) {
+        throw new Error(`Could not fetch time series data for symbol: ${symbol}`);
+      }
+      
+      return result;
+    }), {
+      ...options,
+      ttlMs: getTimeSeriesTtl(this.cache.getTtl('getTimeSeries'), endDate)
+    });
   }
 
   /**
    * Get financial metrics with fallback support
-   * @throws {Error} If no provider can fulfill the request
+   * @throws {AllProvidersFailedError} If no provider can fulfill the request
    */
-  async getFinancialMetrics(symbol: string): Promise<FinancialMetrics> {
-    const result = await this.registry.withFallback('fundamentals', (provider) => 
-      provider.getFinancialMetrics(symbol)
-    );
-    
-    if (!result) {
-      throw new Error(`Could not fetch financial metrics for symbol: ${symbol}`);
+  async getFinancialMetrics(
+    symbol: string,
+    asOfDate?: Date,
+    period?: 'annual' | 'quarterly' | 'ttm',
+    includeGrowthMetrics?: boolean,
+    requestOptions: MergeRequestOptions = {}
+  ): Promise<FinancialMetrics> {
+    const merge = this.shouldMerge('getFinancialMetrics', requestOptions);
+    const params = [normalizeSymbol(symbol), asOfDate, period, includeGrowthMetrics, ...(merge ? ['merged'] : [])];
+    return this.cache.wrap('getFinancialMetrics', params, () => this.traced(async () => {
+      const callback = (provider: StockApiClient) =>
+        provider.getFinancialMetrics(symbol, asOfDate, period, includeGrowthMetrics);
+      const capability = { method: 'getFinancialMetrics' as const };
+      const result = merge
+        ? (await this.registry.withMerge('fundamentals', callback, {
+          capability,
+          fields: FINANCIAL_METRICS_FIELDS,
+          precedence: this.config.merge?.precedence
+        })).record
+        : await this.registry.withFallback('fundamentals', callback, { capability });
+      
+      if (!result) {
+        throw new Error(`Could not fetch financial metrics for symbol: ${symbol}`);
+      }
+      
+      return result;
+    }), requestOptions);
+  }
+
+  /**
+   * Run a call under a trace and, with `metadata` or `debug` enabled, return its result
+   * carrying where it came from (see ResultMeta)
+   */
+  private async traced<T>(load: () => Promise<T>): Promise<T> {
+    if (!this.config.metadata && !this.config.debug) {
+      return load();
     }
-    
-    return result;
+    const trace = new CallTrace();
+    const result = await runWithTrace(trace, load);
+    return attachMeta(result, describeTrace(trace, result, { debug: this.config.debug }));
+  }
+
+  /**
+   * Whether a method's records are merged across providers, per call or by the `merge` config
+   */
+  private shouldMerge(method: MergeMethod, options: MergeRequestOptions): boolean {
+    if (options.merge !== undefined) {
+      return options.merge;
+    }
+    const merge = this.config.merge;
+    return merge !== undefined && (merge.methods || ['getCompanyProfile', 'getFinancialMetrics']).includes(method);
   }
 
   /**
-   * Get dividend history with fallback support
+   * Get dividend history with fallback support.
+   * With a persistent cache and a start date, only dates missing from the store are fetched.
    * @returns Array of dividends, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getDividends(
     symbol: string, 
     startDate?: Date, 
-    endDate?: Date
+    endDate?: Date,
+    requestOptions: RequestOptions = {}
   ): Promise<Dividend[]> {
-    try {
-      const result = await this.registry.withFallback('fundamentals', (provider) => 
-        provider.getDividends(symbol, startDate, endDate)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn(`Error fetching dividends for ${symbol}:`, error);
-      return [];
+    if (startDate && this.cache.persistent) {
+      return this.traced(() => this.cache.getRange(
+        'getDividends',
+        [normalizeSymbol(symbol)],
+        { start: startDate, end: endDate || new Date() },
+        (dividend: Dividend) => dividend.exDate,
+        (range) => this.registry.withFallback('fundamentals', (provider) => 
+          provider.getDividends(symbol, range.start, range.end),
+          { allowEmpty: true, capability: { method: 'getDividends' } }
+        ),
+        { ...requestOptions, newestFirst: true }
+      ));
     }
+    
+    return this.cache.wrap('getDividends', [normalizeSymbol(symbol), startDate, endDate], () =>
+      this.traced(() => this.registry.withFallback('fundamentals', (provider) => 
+        provider.getDividends(symbol, startDate, endDate),
+        { allowEmpty: true, capability: { method: 'getDividends' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
-   * Get earnings reports with fallback support
+   * Get earnings reports with fallback support.
+   * With a persistent cache and a start date, only dates missing from the store are fetched.
    * @param symbol Stock symbol to get earnings for
    * @param optionsOrLimit Either a number limit or options object
    * @param optionsOrLimit.limit Maximum number of reports to return (default: 4)
@@ -388,6 +683,7 @@ export class StocksAPI implements StockApiClient {
    * @param optionsOrLimit.startDate Optional start date to filter reports
    * @param optionsOrLimit.endDate Optional end date to filter reports
    * @returns Array of earnings reports, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getEarnings(
     symbol: string, 
@@ -396,23 +692,45 @@ export class StocksAPI implements StockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    requestOptions: RequestOptions = {}
   ): Promise<EarningsReport[]> {
-    try {
-      // Handle both signatures: (symbol, limit) and (symbol, options)
-      const options = typeof optionsOrLimit === 'number' 
-        ? { limit: optionsOrLimit }
-        : optionsOrLimit || {};
-      
-      const result = await this.registry.withFallback('fundamentals', (provider) => 
-        provider.getEarnings(symbol, options)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn(`Error fetching earnings for ${symbol}:`, error);
-      return [];
+    // Handle both signatures: (symbol, limit) and (symbol, options)
+    const options = typeof optionsOrLimit === 'number' 
+      ? { limit: optionsOrLimit }
+      : optionsOrLimit || {};
+    
+    const { startDate } = options;
+    if (startDate && this.cache.persistent) {
+      return this.traced(async () => {
+        const reports = await this.cache.getRange(
+          'getEarnings',
+          [normalizeSymbol(symbol)],
+          { start: startDate, end: options.endDate || new Date() },
+          (report: EarningsReport) => report.reportedDate || report.fiscalDateEnding,
+          (range) => this.registry.withFallback('fundamentals', (provider) => 
+            provider.getEarnings(symbol, {
+              ...options,
+              startDate: range.start,
+              endDate: range.end,
+              // Earnings are quarterly, so allow one report per quarter of the range
+              limit: Math.ceil((range.end.getTime() - range.start.getTime()) / QUARTER_MS) + 1
+            }),
+            { allowEmpty: true, capability: { method: 'getEarnings' } }
+          ),
+          { ...requestOptions, newestFirst: true }
+        );
+        return options.limit ? reports.slice(0, options.limit) : reports;
+      });
     }
+    
+    return this.cache.wrap('getEarnings', [normalizeSymbol(symbol), options], () =>
+      this.traced(() => this.registry.withFallback('fundamentals', (provider) => 
+        provider.getEarnings(symbol, options),
+        { allowEmpty: true, capability: { method: 'getEarnings' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
@@ -423,6 +741,7 @@ export class StocksAPI implements StockApiClient {
    * @param options.endDate End date for filtering (default: 3 months from now)
    * @param options.symbols Array of symbols to filter by (if not provided, returns all stocks)
    * @returns Array of upcoming earnings reports, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getUpcomingEarnings(
     options: {
@@ -430,35 +749,32 @@ export class StocksAPI implements StockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    } = {}
+    } = {},
+    requestOptions: RequestOptions = {}
   ): Promise<EarningsReport[]> {
-    try {
-      const result = await this.registry.withFallback('fundamentals', (provider) => 
-        provider.getUpcomingEarnings(options)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn('Error fetching upcoming earnings:', error);
-      return [];
-    }
+    const params = [{ ...options, symbols: options.symbols && normalizeSymbols(options.symbols) }];
+    return this.cache.wrap('getUpcomingEarnings', params, () =>
+      this.traced(() => this.registry.withFallback('fundamentals', (provider) => 
+        provider.getUpcomingEarnings(options),
+        { allowEmpty: true, capability: { method: 'getUpcomingEarnings' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
    * Search for stock symbols with fallback support
    * @returns Array of stock symbols, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
-  async searchSymbols(query: string): Promise<StockSymbol[]> {
-    try {
-      const result = await this.registry.withFallback('fundamentals', (provider) => 
-        provider.searchSymbols(query)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn(`Error searching for symbols with query "${query}":`, error);
-      return [];
-    }
+  async searchSymbols(query: string, requestOptions: RequestOptions = {}): Promise<StockSymbol[]> {
+    return this.cache.wrap('searchSymbols', [query.trim().toLowerCase()], () =>
+      this.traced(() => this.registry.withFallback('fundamentals', (provider) => 
+        provider.searchSymbols(query),
+        { allowEmpty: true, capability: { method: 'searchSymbols' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
@@ -466,45 +782,43 @@ export class StocksAPI implements StockApiClient {
    * @param symbols - Array of symbols to filter news by (optional)
    * @param limit - Maximum number of news articles to return (default: 10)
    * @returns Array of news articles, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getMarketNews(
     symbols: string[] = [], 
-    limit: number = 10
+    limit: number = 10,
+    requestOptions: RequestOptions = {}
   ): Promise<NewsArticle[]> {
-    try {
-      const result = await this.registry.withFallback('news', (provider) => 
-        provider.getMarketNews(symbols, limit)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn('No news providers available or all failed:', error);
-      return [];
-    }
+    return this.cache.wrap('getMarketNews', [normalizeSymbols(symbols), limit], () =>
+      this.traced(() => this.registry.withFallback('news', (provider) => 
+        provider.getMarketNews(symbols, limit),
+        { allowEmpty: true, capability: { method: 'getMarketNews' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
    * Get economic events with fallback support
    * @param options - Options for filtering economic events
    * @returns Array of economic events, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
-  async getEconomicEvents(options?: EconomicEventOptions): Promise<EconomicEvent[]> {
-    try {
-      const result = await this.registry.withFallback('getEconomicEvents', (provider) => 
-        provider.getEconomicEvents(options)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn('Error fetching economic events:', error);
-      return [];
-    }
+  async getEconomicEvents(options?: EconomicEventOptions, requestOptions: RequestOptions = {}): Promise<EconomicEvent[]> {
+    return this.cache.wrap('getEconomicEvents', [options], () =>
+      this.traced(() => this.registry.withFallback('economic', (provider) => 
+        provider.getEconomicEvents(options),
+        { allowEmpty: true, capability: { method: 'getEconomicEvents' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
    * Get economic calendar with fallback support
    * @param options - Options for filtering the calendar
    * @returns Array of economic calendar entries, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getEconomicCalendar(
     options?: {
@@ -512,18 +826,16 @@ export class StocksAPI implements StockApiClient {
       endDate?: Date;
       countries?: EconomicRegion[];
       importance?: ('low' | 'medium' | 'high')[];
-    }
+    },
+    requestOptions: RequestOptions = {}
   ): Promise<EconomicCalendarEntry[]> {
-    try {
-      const result = await this.registry.withFallback('getEconomicCalendar', (provider) => 
-        provider.getEconomicCalendar(options)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn('Error fetching economic calendar:', error);
-      return [];
-    }
+    return this.cache.wrap('getEconomicCalendar', [options], () =>
+      this.traced(() => this.registry.withFallback('economic', (provider) => 
+        provider.getEconomicCalendar(options),
+        { allowEmpty: true, capability: { method: 'getEconomicCalendar' } }
+      )),
+      requestOptions
+    );
   }
 
   /**
@@ -532,6 +844,7 @@ export class StocksAPI implements StockApiClient {
    * @param country - The country/region
    * @param options - Additional options
    * @returns Array of economic events for the indicator, or empty array if none found
+   * @throws {AllProvidersFailedError} If every provider failed
    */
   async getEconomicIndicator(
     indicator: EconomicIndicator,
@@ -540,33 +853,91 @@ export class StocksAPI implements StockApiClient {
       startDate?: Date;
       endDate?: Date;
       limit?: number;
-    }
+    },
+    requestOptions: RequestOptions = {}
   ): Promise<EconomicEvent[]> {
-    try {
-      const result = await this.registry.withFallback('getEconomicIndicator', (provider) => 
-        provider.getEconomicIndicator(indicator, country, options)
-      );
-      
-      return result || [];
-    } catch (error) {
-      console.warn(`Error fetching economic indicator ${indicator} for ${country}:`, error);
-      return [];
+    return this.cache.wrap('getEconomicIndicator', [indicator, country, options], () =>
+      this.traced(() => this.registry.withFallback('economic', (provider) => 
+        provider.getEconomicIndicator(indicator, country, options),
+        { allowEmpty: true, capability: { method: 'getEconomicIndicator', region: country } }
+      )),
+      requestOptions
+    );
+  }
+  
+  /**
+   * Get observed health for every registered provider: success rate, latency
+   * percentiles and the circuit breaker state of each feature
+   */
+  getProviderHealth(): Partial<Record<ProviderName, ProviderHealth>> {
+    return this.registry.getProviderHealth();
+  }
+  
+  /**
+   * Get the requests counted for every provider and each of its keys in the current
+   * minute, day and month (UTC), with the budget left where the provider has a quota.
+   * Counts include earlier runs when `usage.store` is configured.
+   * 
+   * @example
+   * ```typescript
+   * const { marketStack } = await api.getUsage();
+   * console.log(`${marketStack?.windows.month?.remaining} Marketstack requests left this month`);
+   * ```
+   */
+  async getUsage(): Promise<Partial<Record<ProviderName, ProviderUsage>>> {
+    await this.usage.ready();
+    const usage: Partial<Record<ProviderName, ProviderUsage>> = {};
+    for (const name of this.keyPools.keys()) {
+      usage[name] = this.usage.getUsage(name);
     }
+    return usage;
+  }
+  
+  /**
+   * Get the request and rejection counters of every API key, per provider.
+   * Keys are masked down to their last four characters.
+   */
+  getKeyUsage(): Partial<Record<ProviderName, KeyUsage[]>> {
+    const usage: Partial<Record<ProviderName, KeyUsage[]>> = {};
+    for (const [name, pool] of this.keyPools) {
+      usage[name] = pool.getUsage();
+    }
+    return usage;
+  }
+  
+  /**
+   * Drop every cached response
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+  
+  /**
+   * Get what each registered provider can serve: every client method with whether it
+   * is supported and, where restricted, the intervals or regions it covers.
+   * Requests are only routed to providers whose capabilities cover them.
+   */
+  getCapabilities(): Partial<Record<ProviderName, Record<CapabilityMethod, CapabilityReport>>> {
+    return this.registry.getCapabilities();
   }
   
   /**
-   * Get the list of enabled providers
+   * Get the list of enabled providers: the configured ones with a client and those added
+   * with registerProvider, in the order they were registered
    */
   getEnabledProviders(): string[] {
-    return Object.entries(this.config.providers)
-      .filter(([_, config]) => config?.enabled)
-      .map(([name]) => name);
+    return Object.keys(this.registry.getAllProviders());
   }
 }
 
 // Re-export types and config for convenience
 export * from './types';
 export * from './config';
+export * from './errors';
+export * from './cache';
+export * from './events';
+export * from './logger';
+export * from './meta';
 
 // Export provider implementations
 export * from './providers';
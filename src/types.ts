@@ -177,6 +177,36 @@ export interface StockQuote {
   // New metrics
   volumeMetrics?: VolumeMetrics;
   performance?: PerformanceMetrics;
+  
+  /** How the providers asked agreed, for quotes requested with `consensus` */
+  consensus?: QuoteConsensus;
+}
+
+/**
+ * Price one provider answered with for a consensus quote
+ */
+export interface ConsensusPrice {
+  provider: string;
+  price: number;
+  timestamp: Date;
+  /** Whether the price is further from the median than the outlier threshold */
+  outlier: boolean;
+}
+
+/**
+ * Agreement between the providers behind a consensus quote, whose price is their median
+ */
+export interface QuoteConsensus {
+  /** Number of providers asked */
+  requested: number;
+  /** Prices of the providers that answered, in routing order */
+  prices: ConsensusPrice[];
+  /** Median absolute deviation of the prices from the median */
+  deviation: number;
+  /** `deviation` as a percentage of the median */
+  deviationPercent: number;
+  /** Providers whose price was flagged as an outlier */
+  outliers: string[];
 }
 
 /**
@@ -425,19 +455,24 @@ export interface BatchCompanyProfileResult {
   [symbol: string]: BatchResult<CompanyProfile>;
 }
 
+/**
+ * A provider's client. Every method takes CallOptions as its last parameter;
+ * their signal and deadline apply to every request the call makes.
+ */
 export interface StockApiClient {
   // Stock data methods
-  getQuote(symbol: string, includeHistorical?: boolean): Promise<StockQuote>;
-  getQuotes(symbols: string[]): Promise<BatchQuoteResult>;
-  getCompanyProfile(symbol: string): Promise<CompanyProfile>;
-  getCompanyProfiles(symbols: string[]): Promise<BatchCompanyProfileResult>;
+  getQuote(symbol: string, includeHistorical?: boolean, callOptions?: CallOptions): Promise<StockQuote>;
+  getQuotes(symbols: string[], callOptions?: CallOptions): Promise<BatchQuoteResult>;
+  getCompanyProfile(symbol: string, callOptions?: CallOptions): Promise<CompanyProfile>;
+  getCompanyProfiles(symbols: string[], callOptions?: CallOptions): Promise<BatchCompanyProfileResult>;
   getTimeSeries(
     symbol: string, 
     interval?: TimeInterval,
     period?: number,
     startDate?: Date,
     endDate?: Date,
-    outputSize?: 'compact' | 'full'
+    outputSize?: 'compact' | 'full',
+    callOptions?: CallOptions
   ): Promise<TimeSeriesPoint[]>;
   
   // Financial data methods
@@ -445,9 +480,10 @@ export interface StockApiClient {
     symbol: string, 
     asOfDate?: Date,
     period?: 'annual' | 'quarterly' | 'ttm',
-    includeGrowthMetrics?: boolean
+    includeGrowthMetrics?: boolean,
+    callOptions?: CallOptions
   ): Promise<FinancialMetrics>;
-  getDividends(symbol: string, startDate?: Date, endDate?: Date): Promise<Dividend[]>;
+  getDividends(symbol: string, startDate?: Date, endDate?: Date, callOptions?: CallOptions): Promise<Dividend[]>;
   getEarnings(
     symbol: string, 
     options?: {
@@ -455,7 +491,8 @@ export interface StockApiClient {
       includeFutureReports?: boolean;
       startDate?: Date;
       endDate?: Date;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
   
   /**
@@ -472,12 +509,13 @@ export interface StockApiClient {
       startDate?: Date;
       endDate?: Date;
       symbols?: string[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EarningsReport[]>;
   
   // Market data methods
-  searchSymbols(query: string): Promise<StockSymbol[]>;
-  getMarketNews(symbols?: string[], limit?: number): Promise<NewsArticle[]>;
+  searchSymbols(query: string, callOptions?: CallOptions): Promise<StockSymbol[]>;
+  getMarketNews(symbols?: string[], limit?: number, callOptions?: CallOptions): Promise<NewsArticle[]>;
   
   // Economic data methods
   /**
@@ -485,7 +523,8 @@ export interface StockApiClient {
    * @param options Options for filtering economic events
    */
   getEconomicEvents(
-    options?: EconomicEventOptions
+    options?: EconomicEventOptions,
+    callOptions?: CallOptions
   ): Promise<EconomicEvent[]>;
   
   /**
@@ -498,7 +537,8 @@ export interface StockApiClient {
       endDate?: Date;
       countries?: EconomicRegion[];
       importance?: EconomicEventImportance[];
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EconomicCalendarEntry[]>;
   
   /**
@@ -514,7 +554,75 @@ export interface StockApiClient {
       startDate?: Date;
       endDate?: Date;
       limit?: number;
-    }
+    },
+    callOptions?: CallOptions
   ): Promise<EconomicEvent[]>;
 }
 
+
+/**
+ * Cancellation settings for a call, covering every request it makes:
+ * retries, rate limit waits and fallback to other providers
+ */
+export interface CallOptions {
+  /** Aborting the signal stops the call and rejects it with a RequestAbortedError */
+  signal?: AbortSignal;
+  /** Deadline for the whole call in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-call options accepted by the StocksAPI methods
+ */
+export interface RequestOptions extends CallOptions {
+  /**
+   * Set to false to bypass the cache and fetch fresh data.
+   * The fresh result still replaces the cached entry.
+   */
+  cache?: boolean;
+}
+
+/**
+ * Options for StocksAPI.getCompanyProfile and getFinancialMetrics
+ */
+export interface MergeRequestOptions extends RequestOptions {
+  /**
+   * Fill the fields the first provider left empty from the next providers
+   * (default: the `merge` config)
+   */
+  merge?: boolean;
+}
+
+/**
+ * Options for StocksAPI.getQuote
+ */
+export interface QuoteRequestOptions extends RequestOptions {
+  /** Fill in the company name from the company profile when the quote lacks it (default: true) */
+  includeCompanyName?: boolean;
+  /**
+   * Also ask the next provider when no answer arrived within this many milliseconds;
+   * the first answer wins (default: the `hedging` config)
+   */
+  hedgeMs?: number;
+  /**
+   * Ask this many realtime providers in parallel and return the median of their prices,
+   * with the spread between them in `quote.consensus`
+   */
+  consensus?: number;
+  /** Consensus prices further than this percentage from the median are flagged as outliers (default: 1) */
+  outlierPercent?: number;
+}
+
+/**
+ * Options for StocksAPI.getTimeSeries
+ */
+export interface TimeSeriesRequestOptions extends RequestOptions {
+  /** Number of data points to fetch (default: 100) */
+  period?: number;
+  /** Start of the date range */
+  startDate?: Date;
+  /** End of the date range; bars of a range that ended before today are cached indefinitely */
+  endDate?: Date;
+  /** Passed on to the provider; ranges cached durably are always fetched in full */
+  outputSize?: 'compact' | 'full';
+}